@@ -0,0 +1,196 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  DEFAULT_PROCESSING_PARAMS,
+  EDIT_MODES,
+  createFileProvider,
+  createGeocoder,
+  featuresToLayers,
+  findPlace,
+  hasBoundary,
+  importFile,
+  outputFormatFor,
+  parseCountryCodes,
+  placeToLayer,
+  processFeatures,
+  searchPlace,
+  writeLayers,
+  SEARCH_FEATURE_TYPES,
+  type EditMode,
+  type GeocodeOptions,
+  type GeocoderKind,
+  type GeocoderProvider,
+  type Layer,
+  type LayerProcessing,
+  type OutputFormat,
+  type SearchFeatureType
+} from '../src/lib';
+
+const USAGE = `Usage:
+  location2kml <place> [options]           Look up a place and write its boundary
+  location2kml convert <input> <output>    Convert between formats (KML, KMZ, GeoJSON,
+                                           TopoJSON, WKT, WKB, Shapefile in; KML, KMZ,
+                                           GeoJSON out)
+
+Options:
+  -o, --output <file>       Output file; the format follows its extension (.kml, .kmz,
+                            .geojson, .json). Without it KML is written to stdout
+  -m, --mode <mode>         ${EDIT_MODES.map(m => m.value).join(', ')}
+                            (default: accurate; convert only processes when given)
+      --buffer-km <km>      Gap-filling buffer for approximate mode
+      --min-island-km2 <a>  Drop parts smaller than this
+      --fill-holes-km2 <a>  Fill holes smaller than this
+      --concave-alpha-km <km>  Longest edge the concave hull may span
+      --keep-altitude       Keep altitudes in modes that can
+      --geocoder <name>     nominatim (default) or photon
+      --geocoder-url <url>  Self-hosted geocoder base URL
+      --email <address>     Contact address sent to Nominatim
+      --responses <file>    Answer lookups from saved geocoder responses (JSON)
+                            instead of the network
+      --country <codes>     Only places in these countries, e.g. in,np
+      --type <type>         ${SEARCH_FEATURE_TYPES.filter(t => t.value).map(t => t.value).join(', ')}
+      --language <code>     Language for place names, e.g. en
+      --result <n>          Use the nth candidate instead of the best match
+      --list                Print the ranked candidates and exit
+  -h, --help                Show this help`;
+
+// Nominatim's usage policy asks for an identifying User-Agent
+const USER_AGENT = 'location2kml (kmlbuilder)';
+
+const OPTIONS = {
+  output: { type: 'string', short: 'o' },
+  mode: { type: 'string', short: 'm' },
+  'buffer-km': { type: 'string' },
+  'min-island-km2': { type: 'string' },
+  'fill-holes-km2': { type: 'string' },
+  'concave-alpha-km': { type: 'string' },
+  'keep-altitude': { type: 'boolean' },
+  geocoder: { type: 'string' },
+  'geocoder-url': { type: 'string' },
+  email: { type: 'string' },
+  responses: { type: 'string' },
+  country: { type: 'string' },
+  type: { type: 'string' },
+  language: { type: 'string' },
+  result: { type: 'string' },
+  list: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' }
+} as const;
+
+type Options = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+const parseNumber = (value: string | undefined, option: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) throw new Error(`--${option} must be a non-negative number`);
+  return number;
+};
+
+const getProcessing = (options: Options): LayerProcessing => {
+  const mode = (options.mode || 'accurate') as EditMode;
+  if (!EDIT_MODES.some(m => m.value === mode)) {
+    throw new Error(`Unknown mode "${mode}"; use one of ${EDIT_MODES.map(m => m.value).join(', ')}`);
+  }
+
+  const defaults = DEFAULT_PROCESSING_PARAMS;
+  return {
+    mode,
+    params: {
+      ...defaults,
+      bufferKm: parseNumber(options['buffer-km'], 'buffer-km') ?? defaults.bufferKm,
+      minIslandAreaKm2: parseNumber(options['min-island-km2'], 'min-island-km2') ?? defaults.minIslandAreaKm2,
+      fillHolesBelowKm2: parseNumber(options['fill-holes-km2'], 'fill-holes-km2') ?? defaults.fillHolesBelowKm2,
+      concaveAlphaKm: parseNumber(options['concave-alpha-km'], 'concave-alpha-km') ?? defaults.concaveAlphaKm,
+      flatten: !options['keep-altitude']
+    }
+  };
+};
+
+const getGeocoder = async (options: Options): Promise<GeocoderProvider> => {
+  if (options.responses) {
+    return createFileProvider(JSON.parse(await readFile(options.responses, 'utf8')));
+  }
+  return createGeocoder((options.geocoder || 'nominatim') as GeocoderKind, {
+    baseUrl: options['geocoder-url'],
+    email: options.email,
+    userAgent: USER_AGENT
+  });
+};
+
+const getSearchOptions = (options: Options): GeocodeOptions => {
+  const featureType = options.type as SearchFeatureType | undefined;
+  if (featureType && !SEARCH_FEATURE_TYPES.some(t => t.value === featureType)) {
+    throw new Error(`Unknown place type "${featureType}"`);
+  }
+  return {
+    countryCodes: options.country ? parseCountryCodes(options.country) : undefined,
+    featureType,
+    language: options.language
+  };
+};
+
+const output = async (layers: Layer[], name: string, file?: string) => {
+  const format: OutputFormat = file ? outputFormatFor(file) : 'kml';
+  const data = await writeLayers(layers, format, name);
+  const contents = typeof data === 'string' ? data : new Uint8Array(await data.arrayBuffer());
+  if (file) {
+    await writeFile(file, contents);
+    console.error(`Wrote ${layers.length} feature${layers.length === 1 ? '' : 's'} to ${file}`);
+  } else {
+    process.stdout.write(contents);
+  }
+};
+
+const runLookup = async (query: string, options: Options) => {
+  const geocoder = await getGeocoder(options);
+
+  if (options.list) {
+    const results = await searchPlace(query, geocoder, getSearchOptions(options));
+    results.forEach((result, index) => {
+      const kind = result.class ? ` (${result.class}/${result.type})` : '';
+      const boundary = hasBoundary(result) ? '' : ' [no boundary]';
+      console.log(`${index + 1}. ${result.display_name}${kind}${boundary}`);
+    });
+    return;
+  }
+
+  const choice = options.result === undefined ? undefined : Number(options.result);
+  if (choice !== undefined && (!Number.isInteger(choice) || choice < 1)) {
+    throw new Error('--result must be a whole number from 1');
+  }
+
+  const result = await findPlace(query, geocoder, choice, getSearchOptions(options));
+  console.error(`Using ${result.display_name}`);
+  await output([placeToLayer(result, getProcessing(options))], result.display_name.split(',')[0], options.output);
+};
+
+const runConvert = async (input: string, target: string | undefined, options: Options) => {
+  const file = new File([await readFile(input)], basename(input));
+  const { features } = await importFile(file);
+  if (features.length === 0) throw new Error(`No features found in ${input}`);
+
+  const processed = options.mode ? processFeatures(features, getProcessing(options)) : features;
+  await output(featuresToLayers(processed), basename(input).replace(/\.[^.]+$/, ''), target || options.output);
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({ options: OPTIONS, allowPositionals: true });
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (positionals[0] === 'convert') {
+    if (!positionals[1]) throw new Error('convert needs an input file');
+    await runConvert(positionals[1], positionals[2], values);
+  } else {
+    await runLookup(positionals.join(' '), values);
+  }
+};
+
+main().catch(error => {
+  console.error(`location2kml: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
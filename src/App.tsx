@@ -1,8 +1,40 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Sidebar from './components/Sidebar';
-import MapComponent from './components/MapComponent';
-import type { Feature, CitySearchResult, EditMode, Layer } from './types';
-import { ensureSinglePolygon, convertTo2D, toKML, parseKML } from './utils/geometryUtils';
+import MapComponent, { type ZoomRequest } from './components/MapComponent';
+import ShapefileImportDialog from './components/ShapefileImportDialog';
+import ReprocessDialog from './components/ReprocessDialog';
+import JobQueue from './components/JobQueue';
+import BatchDialog from './components/BatchDialog';
+import type { Feature, CitySearchResult, DrawTool, EditMode, Geometry, Layer, LayerProcessing, LayerStyle, ProcessingParams } from './types';
+import { DEFAULT_PROCESSING_PARAMS, isEmptyGeometry, toKMLDocument, withProcessingProperties } from './utils/geometryUtils';
+import { toKMZ } from './utils/kmzUtils';
+import { styleFromProperties } from './utils/styleUtils';
+import { toExportFeature } from './utils/convertUtils';
+import { hasBoundary } from './utils/batchUtils';
+import { resultBounds } from './utils/searchUtils';
+import { LAYER_SOURCES, folderPathOf } from './utils/layerUtils';
+import type { ImportResult } from './utils/importUtils';
+import { createGeometryQueue, isCancelled, type QueuedJob } from './utils/geometryQueue';
+import { createGeocoderFromEnv } from './utils/geocoderUtils';
+import {
+  PROJECT_EXTENSION,
+  loadAutosave,
+  parseProject,
+  saveAutosave,
+  serializeProject,
+  type ProjectState
+} from './utils/projectUtils';
+import { checkpoint, createHistory, redo, undo, type History } from './utils/historyUtils';
+import type { BooleanOperation } from './utils/booleanUtils';
+import { hasErrors, validateGeometry } from './utils/validationUtils';
+import type { UnitSystem } from './utils/unitUtils';
+import type { SimplifyAlgorithm, SimplifyTarget } from './utils/simplifyUtils';
+
+// Configured through VITE_GEOCODER, VITE_GEOCODER_URL, VITE_GEOCODER_EMAIL, ... (see README)
+const geocoder = createGeocoderFromEnv(import.meta.env);
+
+// Parsing and boundary processing run here, off the main thread, one job at a time
+const geometryQueue = createGeometryQueue();
 
 // Generate unique colors for layers
 const generateColor = (index: number): string => {
@@ -19,194 +51,555 @@ const generateColor = (index: number): string => {
   return colors[index % colors.length];
 };
 
+interface ExportTarget {
+  layers: Layer[];
+  name: string;
+  basename: string;
+  /** Exported as one Placemark or Feature rather than a Document or FeatureCollection. */
+  single: boolean;
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoked on the next tick, once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
 const App: React.FC = () => {
   const [layers, setLayers] = useState<Layer[]>([]);
   const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  // Given to new layers; each layer keeps its own mode and parameters once created
   const [editMode, setEditMode] = useState<EditMode>('accurate');
+  const [processingParams, setProcessingParams] = useState<ProcessingParams>(DEFAULT_PROCESSING_PARAMS);
+  // Icons and overlays from imported KMZs, re-bundled when a KMZ export references them
+  const [kmzAssets, setKmzAssets] = useState<Record<string, Blob>>({});
+  // Shapefile records waiting for the user to pick an attribute filter
+  const [pendingShapefile, setPendingShapefile] = useState<{ fileName: string; features: Feature[] } | null>(null);
+  // Autosave stays off until the previous session has been restored, so it can't overwrite it
+  const [restored, setRestored] = useState(false);
+  // A mode change on an edited layer waiting for the user to decide what happens to the edits
+  const [pendingReprocess, setPendingReprocess] = useState<{ layerId: string; processing: LayerProcessing } | null>(null);
+  const [history, setHistory] = useState<History>(createHistory);
+  const [jobs, setJobs] = useState<QueuedJob[]>([]);
+  // Shared by the statistics panel and the measure tool
+  const [units, setUnits] = useState<UnitSystem>('metric');
+  // A new object per request, so asking to zoom to the same layers again still zooms
+  const [zoomRequest, setZoomRequest] = useState<ZoomRequest | null>(null);
+  const [batchOpen, setBatchOpen] = useState(false);
+  const [searchPreview, setSearchPreview] = useState<CitySearchResult | null>(null);
+  // The search result being processed, cancelled when another result is picked
+  const searchJob = useRef<{ result: CitySearchResult; controller: AbortController } | null>(null);
+  // Running reprocess jobs by layer id, cancelled when the layer's mode changes again
+  const reprocessJobs = useRef(new Map<string, AbortController>());
+  // Async handlers finish after later renders, so history snapshots read the latest state from here
+  const latestState = useRef<ProjectState>({ layers, selectedLayerId, editMode, processingParams });
 
   const selectedLayer = layers.find(l => l.id === selectedLayerId);
 
-  const handleSearchResult = (result: CitySearchResult) => {
-    if (!result.geojson) return;
+  useEffect(() => {
+    latestState.current = { layers, selectedLayerId, editMode, processingParams };
+  });
+
+  useEffect(() => geometryQueue.subscribe(setJobs), []);
+
+  // Call before any undoable change; `coalesceKey` merges rapid repeats (e.g. vertex drags) into one step
+  const recordHistory = (coalesceKey?: string) => {
+    setHistory(prev => checkpoint(prev, latestState.current, coalesceKey));
+  };
+
+  const applySnapshot = useCallback((snapshot: ProjectState) => {
+    setEditMode(snapshot.editMode);
+    setProcessingParams(snapshot.processingParams);
+    setLayers(snapshot.layers);
+    setSelectedLayerId(snapshot.selectedLayerId);
+  }, []);
+
+  // Stable so the simplify preview only restarts when its own inputs change
+  const handleSimplify = useCallback((
+    feature: Feature,
+    name: string,
+    algorithm: SimplifyAlgorithm,
+    target: SimplifyTarget,
+    signal: AbortSignal
+  ) => geometryQueue.run({ type: 'simplify', feature, name, algorithm, target }, { label: `Simplifying ${name}`, signal }), []);
+
+  const handleUndo = () => {
+    const result = undo(history, { layers, selectedLayerId, editMode, processingParams });
+    if (!result) return;
+    setHistory(result.history);
+    applySnapshot(result.state);
+  };
+
+  const handleRedo = () => {
+    const result = redo(history, { layers, selectedLayerId, editMode, processingParams });
+    if (!result) return;
+    setHistory(result.history);
+    applySnapshot(result.state);
+  };
 
-    let processedGeoJson = convertTo2D(result.geojson);
-    processedGeoJson = ensureSinglePolygon(processedGeoJson, editMode);
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes (text fields keep their own undo)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const processSearchResult = async (result: CitySearchResult, { mode, params }: LayerProcessing) => {
+    if (!hasBoundary(result)) {
+      alert(`${result.display_name.split(',')[0]} has no boundary polygon to build a layer from.`);
+      return;
+    }
+
+    searchJob.current?.controller.abort();
+    const controller = new AbortController();
+    searchJob.current = { result, controller };
+
+    let processedGeoJson: Geometry;
+    try {
+      [processedGeoJson] = await geometryQueue.run(
+        { type: 'process', items: [result.geojson], mode, params },
+        { label: result.display_name.split(',')[0], signal: controller.signal }
+      );
+    } catch (error) {
+      if (isCancelled(error)) return;
+      console.error('Processing error:', error);
+      alert(`Failed to process ${result.display_name}. ${error instanceof Error ? error.message : ''}`);
+      return;
+    } finally {
+      if (searchJob.current?.controller === controller) searchJob.current = null;
+    }
+
+    if (isEmptyGeometry(processedGeoJson)) {
+      alert(`${result.display_name.split(',')[0]} has no polygon area left after processing in ${mode} mode. Try the accurate mode or another result.`);
+      return;
+    }
 
     const newFeature: Feature = {
       type: 'Feature',
-      properties: {
+      properties: withProcessingProperties({
         name: result.display_name,
         originalGeoJson: result.geojson,
         osm_id: result.osm_id
-      },
+      }, mode, params),
       geometry: processedGeoJson
     };
 
-    const newLayer: Layer = {
+    // Colour is picked once the layer count is known
+    const newLayer: Omit<Layer, 'color'> = {
       id: `layer-${Date.now()}-${Math.random()}`,
       name: result.display_name,
       feature: newFeature,
+      visible: true,
+      editable: true,
+      source: 'search',
+      processing: { mode, params }
+    };
+
+    recordHistory();
+    setLayers(prev => [...prev, { ...newLayer, color: generateColor(prev.length) }]);
+    setSelectedLayerId(newLayer.id);
+  };
+
+  const handleSearchResult = (result: CitySearchResult) => {
+    processSearchResult(result, { mode: editMode, params: processingParams });
+  };
+
+  const addImportedLayers = async ({ format, features, assets }: ImportResult, label: string) => {
+    if (features.length === 0) {
+      alert('No valid features found in the imported data');
+      return;
+    }
+
+    if (assets) {
+      setKmzAssets(prev => ({ ...prev, ...assets }));
+    }
+
+    const mode = editMode;
+    const params = processingParams;
+    let geometries: Geometry[];
+    try {
+      geometries = await geometryQueue.run({ type: 'process', items: features.map(f => f.geometry), mode, params }, { label });
+    } catch (error) {
+      if (isCancelled(error)) return;
+      console.error('Processing error:', error);
+      alert(`Failed to process ${label}. ${error instanceof Error ? error.message : ''}`);
+      return;
+    }
+
+    // Layers without a colour of their own from the file get one from the palette
+    const newLayers: (Omit<Layer, 'color'> & { color?: string })[] = features.map((feature, index) => {
+      const { properties, color, style } = styleFromProperties(feature.properties);
+      const processedFeature: Feature = {
+        ...feature,
+        geometry: geometries[index],
+        properties: withProcessingProperties({
+          ...properties,
+          originalGeoJson: feature
+        }, mode, params)
+      };
+
+      return {
+        id: `layer-${Date.now()}-${index}-${Math.random()}`,
+        name: feature.properties.name || `Imported Layer ${index + 1}`,
+        feature: processedFeature,
+        color,
+        style,
+        visible: true,
+        editable: true,
+        source: format === 'shapefile' ? 'shapefile' : 'upload',
+        processing: { mode, params }
+      };
+    });
+
+    recordHistory();
+    setLayers(prev => [...prev, ...newLayers.map((layer, index) => ({ ...layer, color: layer.color || generateColor(prev.length + index) }))]);
+    if (newLayers.length > 0) {
+      setSelectedLayerId(newLayers[0].id);
+    }
+  };
+
+  const handleDrawComplete = (geometry: Geometry, tool: DrawTool, properties: Record<string, unknown>) => {
+    const count = layers.filter(l => l.source === 'drawn' && l.feature.properties.drawTool === tool).length;
+    const name = `Drawn ${tool} ${count + 1}`;
+
+    const newLayer: Layer = {
+      id: `layer-${Date.now()}-${Math.random()}`,
+      name,
+      feature: {
+        type: 'Feature',
+        properties: { ...properties, name, drawTool: tool },
+        geometry
+      },
       color: generateColor(layers.length),
       visible: true,
       editable: true,
-      source: 'search'
+      source: 'drawn'
     };
 
+    recordHistory();
     setLayers(prev => [...prev, newLayer]);
     setSelectedLayerId(newLayer.id);
   };
 
-  const handleKMLUpload = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const kmlString = e.target?.result as string;
-        const features = parseKML(kmlString);
-        
-        if (features.length === 0) {
-          alert('No valid features found in KML file');
-          return;
-        }
-
-        const newLayers: Layer[] = features.map((feature, index) => {
-          let processedGeoJson = convertTo2D(feature);
-          processedGeoJson = ensureSinglePolygon(processedGeoJson, editMode);
-
-          const processedFeature: Feature = {
-            ...feature,
-            geometry: processedGeoJson,
-            properties: {
-              ...feature.properties,
-              originalGeoJson: feature
-            }
-          };
-
-          return {
-            id: `layer-${Date.now()}-${index}-${Math.random()}`,
-            name: feature.properties.name || `KML Layer ${layers.length + index + 1}`,
-            feature: processedFeature,
-            color: generateColor(layers.length + index),
-            visible: true,
-            editable: true,
-            source: 'upload'
-          };
-        });
-
-        setLayers(prev => [...prev, ...newLayers]);
-        if (newLayers.length > 0) {
-          setSelectedLayerId(newLayers[0].id);
-        }
-      } catch (error) {
-        console.error('KML parsing error:', error);
-        alert('Failed to parse KML file. Please ensure it is valid.');
+  const handleOperationLayers = (features: Feature[], operation: BooleanOperation) => {
+    const newLayers: Layer[] = features.map((feature, index) => ({
+      id: `layer-${Date.now()}-${index}-${Math.random()}`,
+      name: feature.properties.name || `${operation} ${index + 1}`,
+      feature,
+      color: generateColor(layers.length + index),
+      visible: true,
+      editable: true,
+      source: 'operation'
+    }));
+
+    recordHistory();
+    setLayers(prev => [...prev, ...newLayers]);
+    if (newLayers.length > 0) {
+      setSelectedLayerId(newLayers[0].id);
+    }
+  };
+
+  const handleFileImport = async (file: File) => {
+    try {
+      const result = await geometryQueue.run({ type: 'importFile', file }, { label: file.name });
+      if (result.format === 'shapefile' && result.features.length > 0) {
+        setPendingShapefile({ fileName: file.name, features: result.features });
+        return;
       }
-    };
-    reader.readAsText(file);
+      await addImportedLayers(result, file.name);
+    } catch (error) {
+      if (isCancelled(error)) return;
+      console.error('Import error:', error);
+      alert(`Failed to import ${file.name}. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
+
+  const handleTextImport = async (text: string) => {
+    try {
+      const result = await geometryQueue.run({ type: 'importText', text }, { label: 'Pasted data' });
+      await addImportedLayers(result, 'Pasted data');
+    } catch (error) {
+      if (isCancelled(error)) return;
+      console.error('Import error:', error);
+      alert(`Failed to import pasted data. ${error instanceof Error ? error.message : ''}`);
+    }
   };
 
-  // Re-process when mode changes for layers with originalGeoJson
+  // Pasting GeoJSON, KML or WKT anywhere outside a text field imports it
   useEffect(() => {
-    setLayers(prev => prev.map(layer => {
-      if (layer.feature.properties.originalGeoJson) {
-        let processed = convertTo2D(layer.feature.properties.originalGeoJson);
-        processed = ensureSinglePolygon(processed, editMode);
-        return {
-          ...layer,
-          feature: {
-            ...layer.feature,
-            geometry: processed
-          }
-        };
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const text = e.clipboardData?.getData('text/plain');
+      if (text?.trim()) {
+        e.preventDefault();
+        handleTextImport(text);
       }
-      return layer;
-    }));
-  }, [editMode]);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  });
+
+  const applyProject = (project: ProjectState) => {
+    applySnapshot(project);
+    setKmzAssets({});
+  };
+
+  // Restore the last session from IndexedDB
+  useEffect(() => {
+    loadAutosave()
+      .then(project => {
+        if (project) applySnapshot(project);
+      })
+      .catch(error => console.warn('Could not restore autosave:', error))
+      .finally(() => setRestored(true));
+  }, [applySnapshot]);
+
+  // Debounced autosave so vertex drags don't hit IndexedDB on every change
+  useEffect(() => {
+    if (!restored) return;
+    const timer = setTimeout(() => {
+      saveAutosave({ layers, selectedLayerId, editMode, processingParams })
+        .catch(error => console.warn('Autosave failed:', error));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [layers, selectedLayerId, editMode, processingParams, restored]);
+
+  const handleSaveProject = () => {
+    const blob = new Blob([serializeProject({ layers, selectedLayerId, editMode, processingParams })], { type: 'application/json' });
+    downloadBlob(blob, `project${PROJECT_EXTENSION}`);
+  };
+
+  const handleOpenProject = async (file: File) => {
+    try {
+      const project = parseProject(await file.text());
+      if (layers.length > 0 && !confirm('Opening a project replaces the current layers. Continue?')) return;
+      recordHistory();
+      applyProject(project);
+    } catch (error) {
+      console.error('Project open error:', error);
+      alert(`Failed to open project. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
 
   const handleLayerUpdate = (layerId: string, updatedFeature: Feature) => {
+    recordHistory(`update:${layerId}`);
     setLayers(prev => prev.map(layer => 
       layer.id === layerId 
-        ? { ...layer, feature: updatedFeature }
+        ? { ...layer, feature: updatedFeature, edited: true }
+        : layer
+    ));
+  };
+
+  // Attribute edits leave the geometry alone, so the layer doesn't count as edited
+  const handleLayerPropertiesUpdate = (layerId: string, properties: Feature['properties']) => {
+    recordHistory(`properties:${layerId}`);
+    setLayers(prev => prev.map(layer =>
+      layer.id === layerId
+        ? { ...layer, feature: { ...layer.feature, properties } }
         : layer
     ));
   };
 
-  const handleLayerDelete = (layerId: string) => {
-    setLayers(prev => prev.filter(l => l.id !== layerId));
-    if (selectedLayerId === layerId) {
-      const remaining = layers.filter(l => l.id !== layerId);
+  const handleLayerStyleUpdate = (layerId: string, color: string, style: LayerStyle) => {
+    recordHistory(`style:${layerId}`);
+    setLayers(prev => prev.map(layer => layer.id === layerId ? { ...layer, color, style } : layer));
+  };
+
+  const handleLayersDelete = (layerIds: string[]) => {
+    layerIds.forEach(id => reprocessJobs.current.get(id)?.abort());
+    recordHistory();
+    setLayers(prev => prev.filter(l => !layerIds.includes(l.id)));
+    if (selectedLayerId && layerIds.includes(selectedLayerId)) {
+      const remaining = layers.filter(l => !layerIds.includes(l.id));
       setSelectedLayerId(remaining.length > 0 ? remaining[0].id : null);
     }
   };
 
+  // Renames, reordering, grouping and bulk edits; `change` gets the latest layers
+  const handleLayersChange = (change: (layers: Layer[]) => Layer[], coalesceKey?: string) => {
+    recordHistory(coalesceKey);
+    setLayers(prev => change(prev));
+  };
+
   const handleLayerToggleVisibility = (layerId: string) => {
+    recordHistory();
     setLayers(prev => prev.map(l => 
       l.id === layerId ? { ...l, visible: !l.visible } : l
     ));
   };
 
-  const handleDownloadKml = (layerId?: string) => {
-    const targetLayer = layerId 
-      ? layers.find(l => l.id === layerId)
-      : selectedLayer;
-    
-    if (!targetLayer) {
-      if (layers.length === 0) return;
-      // Download all layers
-      const allKml = layers.map(layer => 
-        toKML(layer.feature, layer.name)
-      ).join('\n');
-      const blob = new Blob([allKml], { type: 'application/vnd.google-earth.kml+xml' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'all-layers.kml';
-      a.click();
-      return;
+  // The given layers, else the selected layer, else every layer
+  const getExportTarget = (layerIds?: string[]): ExportTarget | null => {
+    if (layerIds && layerIds.length !== 1) {
+      const targets = layers.filter(l => layerIds.includes(l.id));
+      return targets.length > 0 ? { layers: targets, name: 'Selected Layers', basename: 'selected-layers', single: false } : null;
     }
+    const layer = layerIds ? layers.find(l => l.id === layerIds[0]) : selectedLayer;
+    if (layer) return { layers: [layer], name: layer.name, basename: layer.name.split(',')[0] || 'boundary', single: true };
+    return layers.length > 0 ? { layers, name: 'All Layers', basename: 'all-layers', single: false } : null;
+  };
 
-    const kml = toKML(targetLayer.feature, targetLayer.name);
-    const blob = new Blob([kml], { type: 'application/vnd.google-earth.kml+xml' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${targetLayer.name.split(',')[0] || 'boundary'}.kml`;
-    a.click();
-  };
-
-  const handleDownloadGeoJson = (layerId?: string) => {
-    const targetLayer = layerId 
-      ? layers.find(l => l.id === layerId)
-      : selectedLayer;
-    
-    if (!targetLayer) {
-      if (layers.length === 0) return;
-      // Download all layers as FeatureCollection
-      const featureCollection = {
-        type: 'FeatureCollection',
-        features: layers.map(l => l.feature)
-      };
-      const geojson = JSON.stringify(featureCollection, null, 2);
-      const blob = new Blob([geojson], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'all-layers.json';
-      a.click();
-      return;
+  // Invalid geometry is only exported once the user confirms it
+  const confirmExport = (target: ExportTarget): boolean => {
+    const invalid = target.layers.filter(l => hasErrors(validateGeometry(l.feature.geometry)));
+    if (invalid.length === 0) return true;
+
+    const names = invalid.map(l => l.name.split(',')[0]).join(', ');
+    return confirm(
+      `${names} ${invalid.length === 1 ? 'has' : 'have'} invalid geometry that other tools may reject.\n\n` +
+      'Export anyway? Cancel to fix it first with Repair in the sidebar.'
+    );
+  };
+
+  // One layer becomes a single Placemark; several keep their groups as Folders, with ungrouped layers grouped by source
+  const buildKml = (target: ExportTarget): string => toKMLDocument(target.layers, {
+    name: target.name,
+    getFolderPath: target.single
+      ? undefined
+      : layer => {
+        const path = folderPathOf(layer);
+        return path.length > 0 ? path : [LAYER_SOURCES.find(s => s.value === layer.source)?.label || layer.source];
+      }
+  });
+
+  const handleDownloadKml = (layerIds?: string[]) => {
+    const target = getExportTarget(layerIds);
+    if (!target || !confirmExport(target)) return;
+
+    const blob = new Blob([buildKml(target)], { type: 'application/vnd.google-earth.kml+xml' });
+    downloadBlob(blob, `${target.basename}.kml`);
+  };
+
+  const handleDownloadKmz = async (layerIds?: string[]) => {
+    const target = getExportTarget(layerIds);
+    if (!target || !confirmExport(target)) return;
+
+    try {
+      const blob = await toKMZ(buildKml(target), kmzAssets);
+      downloadBlob(blob, `${target.basename}.kmz`);
+    } catch (error) {
+      console.error('KMZ export error:', error);
+      alert('Failed to create KMZ file.');
     }
+  };
+
+  const handleDownloadGeoJson = (layerIds?: string[]) => {
+    const target = getExportTarget(layerIds);
+    if (!target || !confirmExport(target)) return;
 
-    const geojson = JSON.stringify(targetLayer.feature, null, 2);
+    const geojson = JSON.stringify(
+      target.single
+        ? toExportFeature(target.layers[0])
+        : { type: 'FeatureCollection', features: target.layers.map(toExportFeature) },
+      null,
+      2
+    );
     const blob = new Blob([geojson], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${targetLayer.name.split(',')[0] || 'boundary'}.json`;
-    a.click();
+    downloadBlob(blob, `${target.basename}.json`);
+  };
+
+  // Rebuilds one layer from its source data; `keepCopy` first saves the edited geometry as a new layer
+  const reprocessLayer = async (layerId: string, processing: LayerProcessing, keepCopy: boolean) => {
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer) return;
+
+    reprocessJobs.current.get(layerId)?.abort();
+    const controller = new AbortController();
+    reprocessJobs.current.set(layerId, controller);
+
+    const { mode, params } = processing;
+    let geometry: Geometry;
+    try {
+      [geometry] = await geometryQueue.run(
+        { type: 'process', items: [layer.feature.properties.originalGeoJson], mode, params },
+        { label: `Reprocessing ${layer.name.split(',')[0]}`, signal: controller.signal }
+      );
+    } catch (error) {
+      if (isCancelled(error)) return;
+      console.error('Processing error:', error);
+      alert(`Failed to reprocess ${layer.name}. ${error instanceof Error ? error.message : ''}`);
+      return;
+    } finally {
+      if (reprocessJobs.current.get(layerId) === controller) reprocessJobs.current.delete(layerId);
+    }
+
+    recordHistory();
+    setEditMode(mode);
+    setProcessingParams(params);
+    setLayers(prev => prev.flatMap(current => {
+      if (current.id !== layerId) return [current];
+
+      const reprocessed: Layer = {
+        ...current,
+        feature: {
+          ...current.feature,
+          properties: withProcessingProperties(current.feature.properties, mode, params),
+          geometry
+        },
+        processing,
+        edited: false
+      };
+      if (!keepCopy) return [reprocessed];
+
+      const properties = Object.fromEntries(
+        Object.entries(current.feature.properties).filter(([key]) => key !== 'originalGeoJson')
+      );
+      const copy: Layer = {
+        ...current,
+        id: `layer-${Date.now()}-${Math.random()}`,
+        name: `${current.name} (edited)`,
+        feature: { ...current.feature, properties: { ...properties, name: `${current.name} (edited)` } },
+        color: generateColor(prev.length),
+        processing: undefined
+      };
+      return [reprocessed, copy];
+    }));
+  };
+
+  // Mode and parameters apply to the selected layer only, and become the default for new layers
+  const handleProcessingChange = (processing: LayerProcessing) => {
+    const target = selectedLayer?.processing && selectedLayer.feature.properties.originalGeoJson
+      ? selectedLayer
+      : null;
+
+    if (!target) {
+      recordHistory();
+      setEditMode(processing.mode);
+      setProcessingParams(processing.params);
+      // A search result still being processed should come out in the new mode
+      if (searchJob.current) processSearchResult(searchJob.current.result, processing);
+    } else if (target.edited) {
+      setPendingReprocess({ layerId: target.id, processing });
+    } else {
+      reprocessLayer(target.id, processing, false);
+    }
   };
 
   const handleClear = () => {
+    reprocessJobs.current.forEach(controller => controller.abort());
+    recordHistory();
     setLayers([]);
     setSelectedLayerId(null);
+    setKmzAssets({});
   };
 
   return (
@@ -215,21 +608,83 @@ const App: React.FC = () => {
         layers={layers}
         selectedLayerId={selectedLayerId}
         onSelectLayer={setSelectedLayerId}
+        geocoder={geocoder}
         onSearchResultSet={handleSearchResult}
-        onKMLUpload={handleKMLUpload}
-        editMode={editMode}
-        setEditMode={setEditMode}
+        onSearchPreview={setSearchPreview}
+        onFileImport={handleFileImport}
+        onTextImport={handleTextImport}
+        processing={selectedLayer?.processing || { mode: editMode, params: processingParams }}
+        onProcessingChange={handleProcessingChange}
         onDownloadKml={handleDownloadKml}
+        onDownloadKmz={handleDownloadKmz}
         onDownloadGeoJson={handleDownloadGeoJson}
-        onLayerDelete={handleLayerDelete}
+        onLayerUpdate={handleLayerUpdate}
+        onSimplify={handleSimplify}
+        onLayerPropertiesUpdate={handleLayerPropertiesUpdate}
+        onLayerStyleUpdate={handleLayerStyleUpdate}
+        onLayersDelete={handleLayersDelete}
+        onLayersChange={handleLayersChange}
         onLayerToggleVisibility={handleLayerToggleVisibility}
+        onZoomToLayers={layerIds => setZoomRequest({ layerIds })}
         onClear={handleClear}
+        onOpenBatch={() => setBatchOpen(true)}
+        onSaveProject={handleSaveProject}
+        onOpenProject={handleOpenProject}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        canUndo={history.past.length > 0}
+        canRedo={history.future.length > 0}
+        onCreateOperationLayers={handleOperationLayers}
+        units={units}
+        onUnitsChange={setUnits}
       />
       <MapComponent 
         layers={layers}
         selectedLayerId={selectedLayerId}
         onLayerUpdate={handleLayerUpdate}
+        onFileDrop={files => files.forEach(handleFileImport)}
+        onTextDrop={handleTextImport}
+        onDrawComplete={handleDrawComplete}
+        zoomRequest={zoomRequest}
+        previewBounds={searchPreview && resultBounds(searchPreview)}
+        units={units}
+        onUnitsChange={setUnits}
       />
+      {pendingShapefile && (
+        <ShapefileImportDialog
+          fileName={pendingShapefile.fileName}
+          features={pendingShapefile.features}
+          onImport={features => {
+            setPendingShapefile(null);
+            addImportedLayers({ format: 'shapefile', features }, pendingShapefile.fileName);
+          }}
+          onCancel={() => setPendingShapefile(null)}
+        />
+      )}
+      {pendingReprocess && (
+        <ReprocessDialog
+          layerName={layers.find(l => l.id === pendingReprocess.layerId)?.name || ''}
+          onKeepCopy={() => {
+            setPendingReprocess(null);
+            reprocessLayer(pendingReprocess.layerId, pendingReprocess.processing, true);
+          }}
+          onDiscard={() => {
+            setPendingReprocess(null);
+            reprocessLayer(pendingReprocess.layerId, pendingReprocess.processing, false);
+          }}
+          onCancel={() => setPendingReprocess(null)}
+        />
+      )}
+      {batchOpen && (
+        <BatchDialog
+          geocoder={geocoder}
+          processing={{ mode: editMode, params: processingParams }}
+          onProcess={(items, label) => geometryQueue.run({ type: 'process', items, mode: editMode, params: processingParams }, { label })}
+          onDownload={downloadBlob}
+          onClose={() => setBatchOpen(false)}
+        />
+      )}
+      <JobQueue jobs={jobs} onCancel={geometryQueue.cancel} />
     </>
   );
 };
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Plus, Tags, X } from 'lucide-react';
+import type { Feature, Layer } from '../types';
+import {
+    ATTRIBUTE_TYPES,
+    FEATURE_TEXT_PROPERTIES,
+    INTERNAL_PROPERTIES,
+    attributeType,
+    coerceAttribute,
+    getAttributes,
+    type AttributeType
+} from '../utils/attributeUtils';
+
+interface AttributesPanelProps {
+    layer: Layer;
+    onChange: (layerId: string, properties: Feature['properties']) => void;
+}
+
+interface DraftInputProps {
+    value: string;
+    onCommit: (value: string) => void;
+    type?: 'text' | 'number';
+    multiline?: boolean;
+    placeholder?: string;
+}
+
+// Edits a local draft and only commits on blur or Enter, so typing doesn't create an undo step per key
+const DraftInput: React.FC<DraftInputProps> = ({ value, onCommit, type = 'text', multiline = false, placeholder }) => {
+    const [draft, setDraft] = useState(value);
+    const [lastValue, setLastValue] = useState(value);
+
+    // Undo or another edit changes the value from outside
+    if (value !== lastValue) {
+        setLastValue(value);
+        setDraft(value);
+    }
+
+    const commit = () => {
+        if (draft !== value) onCommit(draft);
+    };
+
+    return multiline ? (
+        <textarea
+            className="plain-input"
+            rows={3}
+            value={draft}
+            placeholder={placeholder}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+        />
+    ) : (
+        <input
+            className="plain-input"
+            type={type}
+            value={draft}
+            placeholder={placeholder}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => e.key === 'Enter' && commit()}
+        />
+    );
+};
+
+const isReservedKey = (key: string) => INTERNAL_PROPERTIES.has(key) || FEATURE_TEXT_PROPERTIES.has(key);
+
+/**
+ * Description and typed attributes of the selected layer. They are exported as KML
+ * ExtendedData and as GeoJSON properties.
+ */
+const AttributesPanel: React.FC<AttributesPanelProps> = ({ layer, onChange }) => {
+    const [open, setOpen] = useState(false);
+    const [newKey, setNewKey] = useState('');
+
+    const properties = layer.feature.properties || {};
+    const attributes = getAttributes(properties);
+    const description = typeof properties.description === 'string' ? properties.description : '';
+
+    const update = (changes: Record<string, unknown>) => onChange(layer.id, { ...properties, ...changes });
+    const without = (key: string) => Object.fromEntries(Object.entries(properties).filter(([k]) => k !== key));
+
+    const setDescription = (value: string) =>
+        onChange(layer.id, value.trim() ? { ...properties, description: value } : without('description'));
+
+    // Keeps the field's position, so exported files list attributes in the same order
+    const renameAttribute = (key: string, name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed || trimmed in properties || isReservedKey(trimmed)) return;
+        onChange(layer.id, Object.fromEntries(Object.entries(properties).map(([k, v]) => [k === key ? trimmed : k, v])));
+    };
+
+    const trimmedKey = newKey.trim();
+    const keyError = !trimmedKey
+        ? null
+        : trimmedKey in properties
+            ? 'A field with this name already exists'
+            : isReservedKey(trimmedKey)
+                ? 'This name is reserved'
+                : null;
+
+    const addAttribute = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!trimmedKey || keyError) return;
+        update({ [trimmedKey]: '' });
+        setNewKey('');
+    };
+
+    const valueInput = (key: string, value: unknown, type: AttributeType | null) => {
+        switch (type) {
+            case null:
+                return <span className="attribute-json" title="Structured values can't be edited here">{JSON.stringify(value)}</span>;
+            case 'boolean':
+                return (
+                    <input
+                        type="checkbox"
+                        checked={value === true}
+                        onChange={(e) => update({ [key]: e.target.checked })}
+                    />
+                );
+            case 'number':
+                return <DraftInput type="number" value={String(value)} onCommit={(v) => update({ [key]: coerceAttribute(v, 'number') })} />;
+            case 'string':
+                return <DraftInput value={value === null ? '' : String(value)} onCommit={(v) => update({ [key]: v })} />;
+        }
+    };
+
+    return (
+        <div style={{ marginBottom: '20px' }}>
+            <button className="section-toggle" onClick={() => setOpen(!open)}>
+                {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                <Tags size={14} />
+                Attributes ({attributes.length})
+            </button>
+
+            {open && (
+                <div className="panel">
+                    <label className="attribute-description">
+                        <span>Description</span>
+                        <DraftInput multiline value={description} onCommit={setDescription} placeholder="Shown in the KML balloon" />
+                    </label>
+
+                    {attributes.map(([key, value]) => {
+                        const type = attributeType(value);
+                        return (
+                            <div key={key} className="attribute-row">
+                                <DraftInput value={key} onCommit={(name) => renameAttribute(key, name)} />
+                                <select
+                                    className="select"
+                                    value={type ?? ''}
+                                    disabled={type === null}
+                                    onChange={(e) => update({ [key]: coerceAttribute(value, e.target.value as AttributeType) })}
+                                >
+                                    {type === null && <option value="">Object</option>}
+                                    {ATTRIBUTE_TYPES.map(t => (
+                                        <option key={t.value} value={t.value}>{t.label}</option>
+                                    ))}
+                                </select>
+                                {valueInput(key, value, type)}
+                                <button className="icon-btn" onClick={() => onChange(layer.id, without(key))} title="Remove field">
+                                    <X size={14} />
+                                </button>
+                            </div>
+                        );
+                    })}
+
+                    <form className="attribute-row" onSubmit={addAttribute}>
+                        <input
+                            className="plain-input"
+                            value={newKey}
+                            onChange={(e) => setNewKey(e.target.value)}
+                            placeholder="New field name"
+                        />
+                        <button className="icon-btn" type="submit" disabled={!trimmedKey || keyError !== null} title={keyError || 'Add field'}>
+                            <Plus size={14} />
+                        </button>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AttributesPanel;
@@ -0,0 +1,327 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Pause, Play, RotateCcw, Upload, X } from 'lucide-react';
+import type { Geometry, LayerProcessing } from '../types';
+import type { GeocoderProvider } from '../utils/geocoderUtils';
+import {
+    BATCH_STATUS_LABELS,
+    batchLayers,
+    chosenResults,
+    createBatchItems,
+    hasBoundary,
+    parseBatchInput,
+    runBatch,
+    uniqueFileNames,
+    type BatchItem
+} from '../utils/batchUtils';
+import { isCancelled } from '../utils/geometryQueue';
+import { toKMLDocument } from '../utils/geometryUtils';
+import { zipFiles } from '../utils/kmzUtils';
+import { clearBatch, loadBatch, saveBatch } from '../utils/projectUtils';
+
+interface BatchDialogProps {
+    geocoder: GeocoderProvider;
+    processing: LayerProcessing;
+    onProcess: (items: Geometry[], label: string) => Promise<Geometry[]>;
+    onDownload: (blob: Blob, filename: string) => void;
+    onClose: () => void;
+}
+
+type BatchOutput = 'combined' | 'zip';
+
+const OUTPUTS: { value: BatchOutput; label: string }[] = [
+    { value: 'combined', label: 'One combined KML' },
+    { value: 'zip', label: 'Zip of per-place KMLs' },
+];
+
+const needsReview = (item: BatchItem) => item.status !== 'matched' && item.status !== 'pending';
+
+/**
+ * Resolves a list of place names to boundaries in one go. Progress is saved after
+ * every lookup, so an interrupted run picks up where it stopped when reopened.
+ */
+const BatchDialog: React.FC<BatchDialogProps> = ({ geocoder, processing, onProcess, onDownload, onClose }) => {
+    const [text, setText] = useState('');
+    const [items, setItems] = useState<BatchItem[] | null>(null);
+    const [saved, setSaved] = useState<BatchItem[] | null>(null);
+    const [running, setRunning] = useState(false);
+    const [generating, setGenerating] = useState(false);
+    const [reviewOnly, setReviewOnly] = useState(false);
+    const [output, setOutput] = useState<BatchOutput>('combined');
+    const controllerRef = useRef<AbortController | null>(null);
+    const csvInputRef = useRef<HTMLInputElement>(null);
+
+    const entries = useMemo(() => parseBatchInput(text), [text]);
+
+    useEffect(() => {
+        loadBatch()
+            .then(setSaved)
+            .catch(error => console.error('Failed to load saved batch:', error));
+    }, []);
+
+    useEffect(() => {
+        if (!items) return;
+        saveBatch(items).catch(error => console.error('Failed to save batch progress:', error));
+    }, [items]);
+
+    // Closing the dialog pauses the run; it resumes from the saved state next time
+    useEffect(() => {
+        const controllers = controllerRef;
+        return () => controllers.current?.abort();
+    }, []);
+
+    const start = async (batch: BatchItem[]) => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setRunning(true);
+        try {
+            await runBatch(batch, geocoder, (index, item) => {
+                setItems(prev => prev && prev.map((p, i) => (i === index ? item : p)));
+            }, controller.signal);
+        } catch (error) {
+            if (!isCancelled(error)) {
+                console.error('Batch error:', error);
+                alert(`Batch lookup stopped. ${error instanceof Error ? error.message : ''}`);
+            }
+        } finally {
+            if (controllerRef.current === controller) controllerRef.current = null;
+            setRunning(false);
+        }
+    };
+
+    const begin = (batch: BatchItem[]) => {
+        setItems(batch);
+        setSaved(null);
+        start(batch);
+    };
+
+    const retryFailed = () => {
+        if (!items) return;
+        const batch = items.map(item => (item.status === 'error' || item.status === 'notFound'
+            ? { entry: item.entry, status: 'pending' as const, results: [], chosen: null }
+            : item));
+        setItems(batch);
+        start(batch);
+    };
+
+    const updateItem = (index: number, change: (item: BatchItem) => BatchItem) => {
+        setItems(prev => prev && prev.map((item, i) => (i === index ? change(item) : item)));
+    };
+
+    // Choosing a match by hand settles it; an empty choice leaves the place out
+    const choose = (index: number, value: string) => updateItem(index, item => ({
+        ...item,
+        status: value === '' ? item.status : 'matched',
+        chosen: value === '' ? null : Number(value)
+    }));
+
+    const requery = (index: number, name: string) => updateItem(index, item => (name.trim() && name !== item.entry.name
+        ? { entry: { ...item.entry, name: name.trim() }, status: 'pending', results: [], chosen: null }
+        : item));
+
+    const discard = async () => {
+        controllerRef.current?.abort();
+        setItems(null);
+        setSaved(null);
+        try {
+            await clearBatch();
+        } catch (error) {
+            console.error('Failed to clear saved batch:', error);
+        }
+    };
+
+    const handleCsvFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) setText(await file.text());
+    };
+
+    const generate = async () => {
+        if (!items) return;
+        const results = chosenResults(items);
+        if (results.length === 0) {
+            alert('No matched boundaries to export');
+            return;
+        }
+
+        setGenerating(true);
+        try {
+            const geometries = await onProcess(results.map(r => r.geojson), `Batch of ${results.length} places`);
+            const layers = batchLayers(results, geometries, processing);
+            if (output === 'combined') {
+                const kml = toKMLDocument(layers, { name: 'Batch boundaries' });
+                onDownload(new Blob([kml], { type: 'application/vnd.google-earth.kml+xml' }), 'batch-boundaries.kml');
+            } else {
+                const names = uniqueFileNames(layers.map(l => l.name), '.kml');
+                const files = Object.fromEntries(layers.map((layer, i) => [names[i], toKMLDocument([layer], { name: layer.name })]));
+                onDownload(await zipFiles(files), 'batch-boundaries.zip');
+            }
+        } catch (error) {
+            if (!isCancelled(error)) {
+                console.error('Batch export error:', error);
+                alert(`Failed to generate batch boundaries. ${error instanceof Error ? error.message : ''}`);
+            }
+        } finally {
+            setGenerating(false);
+        }
+    };
+
+    const counts = items ? items.reduce<Record<string, number>>((acc, item) => {
+        acc[item.status] = (acc[item.status] || 0) + 1;
+        return acc;
+    }, {}) : {};
+    const pending = counts.pending || 0;
+    const done = items ? items.length - pending : 0;
+
+    return (
+        <div className="modal-backdrop" onClick={onClose}>
+            <div className="modal wide" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <span>Batch Boundaries</span>
+                    <button className="icon-btn" onClick={onClose} title="Close (progress is kept)">
+                        <X size={16} />
+                    </button>
+                </div>
+
+                {!items && saved && (
+                    <div className="panel" style={{ marginBottom: '12px', fontSize: '0.8rem' }}>
+                        <div style={{ marginBottom: '8px' }}>
+                            An unfinished batch of {saved.length} places was saved
+                            ({saved.filter(item => item.status === 'pending').length} still to look up).
+                        </div>
+                        <div style={{ display: 'flex', gap: '8px' }}>
+                            <button className="btn btn-primary" onClick={() => begin(saved)}>
+                                <Play size={16} /> Resume
+                            </button>
+                            <button className="btn btn-secondary" onClick={discard}>
+                                Discard
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {!items && (
+                    <>
+                        <div style={{ color: 'var(--text-secondary)', fontSize: '0.8rem', marginBottom: '8px' }}>
+                            One place per line, or a CSV with a header row naming a name/place/city column and
+                            optional country and state columns.
+                        </div>
+                        <textarea
+                            className="plain-input batch-input"
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            placeholder={'Pune, India\nLyon\n\nor\n\nname,state,country\nSpringfield,Illinois,US'}
+                        />
+                        <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '8px' }}>
+                            <button className="btn btn-secondary" onClick={() => csvInputRef.current?.click()}>
+                                <Upload size={16} /> Load CSV
+                            </button>
+                            <input
+                                ref={csvInputRef}
+                                type="file"
+                                accept=".csv,.tsv,.txt"
+                                onChange={handleCsvFile}
+                                style={{ display: 'none' }}
+                            />
+                            <button
+                                className="btn btn-primary"
+                                onClick={() => begin(createBatchItems(entries))}
+                                disabled={entries.length === 0}
+                            >
+                                <Play size={16} /> Look up {entries.length} places
+                            </button>
+                        </div>
+                    </>
+                )}
+
+                {items && (
+                    <>
+                        <div className="batch-summary">
+                            <span>{done} of {items.length} looked up</span>
+                            {(Object.keys(BATCH_STATUS_LABELS) as (keyof typeof BATCH_STATUS_LABELS)[])
+                                .filter(status => status !== 'pending' && counts[status])
+                                .map(status => (
+                                    <span key={status} className={`batch-status ${status}`}>
+                                        {counts[status]} {BATCH_STATUS_LABELS[status]}
+                                    </span>
+                                ))}
+                        </div>
+
+                        <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+                            {running ? (
+                                <button className="btn btn-secondary" onClick={() => controllerRef.current?.abort()}>
+                                    <Pause size={16} /> Pause
+                                </button>
+                            ) : (
+                                <button className="btn btn-secondary" onClick={() => start(items)} disabled={pending === 0}>
+                                    <Play size={16} /> Resume
+                                </button>
+                            )}
+                            <button
+                                className="btn btn-secondary"
+                                onClick={retryFailed}
+                                disabled={running || !items.some(item => item.status === 'error' || item.status === 'notFound')}
+                            >
+                                <RotateCcw size={16} /> Retry failed
+                            </button>
+                            <label className="param-row" style={{ marginLeft: 'auto' }}>
+                                <input type="checkbox" checked={reviewOnly} onChange={(e) => setReviewOnly(e.target.checked)} />
+                                <span>Needs review only</span>
+                            </label>
+                        </div>
+
+                        <div className="batch-table">
+                            {items.map((item, index) => (!reviewOnly || needsReview(item)) && (
+                                <div key={index} className="batch-row">
+                                    <span className={`batch-status ${item.status}`} title={item.error}>
+                                        {BATCH_STATUS_LABELS[item.status]}
+                                    </span>
+                                    <input
+                                        className="plain-input"
+                                        defaultValue={item.entry.name}
+                                        key={item.entry.name}
+                                        title={[item.entry.state, item.entry.country].filter(Boolean).join(', ') || undefined}
+                                        onBlur={(e) => requery(index, e.target.value)}
+                                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                                    />
+                                    <select
+                                        className="select"
+                                        value={item.chosen ?? ''}
+                                        onChange={(e) => choose(index, e.target.value)}
+                                        disabled={item.results.length === 0}
+                                    >
+                                        <option value="">{item.results.length === 0 ? 'No results' : 'Skip'}</option>
+                                        {item.results.map((result, i) => (
+                                            <option key={i} value={i}>
+                                                {result.display_name}
+                                                {result.class ? ` (${result.class}/${result.type})` : ''}
+                                                {hasBoundary(result) ? '' : ' — no boundary'}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '12px' }}>
+                            <select className="select" value={output} onChange={(e) => setOutput(e.target.value as BatchOutput)}>
+                                {OUTPUTS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                            </select>
+                            <button
+                                className="btn btn-primary"
+                                onClick={generate}
+                                disabled={running || generating || chosenResults(items).length === 0}
+                            >
+                                Generate {chosenResults(items).length} boundaries
+                            </button>
+                            <button className="btn btn-secondary" onClick={discard} disabled={generating}>
+                                Clear batch
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default BatchDialog;
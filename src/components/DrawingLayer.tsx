@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Polygon, Polyline, Rectangle, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import * as turf from '@turf/turf';
+import type { Coordinate, DrawTool, Geometry } from '../types';
+import { createCirclePolygon } from '../utils/geometryUtils';
+
+// Pixels the pointer must travel with the button held before a click becomes a freehand stroke
+const FREEHAND_THRESHOLD_PX = 5;
+// Pixels from the first vertex within which a click closes the polygon
+const CLOSE_THRESHOLD_PX = 10;
+
+interface DrawingLayerProps {
+    tool: DrawTool;
+    circleSegments: number;
+    onComplete: (geometry: Geometry, tool: DrawTool, properties: Record<string, unknown>) => void;
+    onCancel: () => void;
+}
+
+const toCoordinate = (latLng: L.LatLng): Coordinate => [latLng.lng, latLng.lat];
+const toLatLng = (c: Coordinate): [number, number] => [c[1], c[0]];
+
+const dedupe = (points: Coordinate[]) =>
+    points.filter((p, i) => i === 0 || p[0] !== points[i - 1][0] || p[1] !== points[i - 1][1]);
+
+/**
+ * Handles map input for the drawing tools.
+ * - polygon / polyline: click to add vertices (or hold and drag to sketch freehand);
+ *   double-click, Enter or clicking the first vertex finishes
+ * - rectangle: drag from corner to corner
+ * - circle: drag from the centre outwards
+ * Escape cancels the shape in progress.
+ */
+const DrawingLayer: React.FC<DrawingLayerProps> = ({ tool, circleSegments, onComplete, onCancel }) => {
+    const map = useMap();
+    const [points, setPoints] = useState<Coordinate[]>([]);
+    const [cursor, setCursor] = useState<Coordinate | null>(null);
+    const [anchor, setAnchor] = useState<Coordinate | null>(null);
+    const pressStart = useRef<L.Point | null>(null);
+    const freehand = useRef<Coordinate[] | null>(null);
+    const [sketching, setSketching] = useState(false);
+
+    const isPath = tool === 'polygon' || tool === 'polyline';
+
+    // Drawing gestures would otherwise pan or zoom the map
+    useEffect(() => {
+        map.doubleClickZoom.disable();
+        map.getContainer().style.cursor = 'crosshair';
+        return () => {
+            map.doubleClickZoom.enable();
+            map.dragging.enable();
+            map.getContainer().style.cursor = '';
+        };
+    }, [map]);
+
+    const reset = () => {
+        setPoints([]);
+        setAnchor(null);
+        setCursor(null);
+        pressStart.current = null;
+        freehand.current = null;
+        setSketching(false);
+        map.dragging.enable();
+    };
+
+    const finishPath = (path: Coordinate[]) => {
+        const clean = dedupe(path);
+        if (tool === 'polygon' && clean.length >= 3) {
+            onComplete({ type: 'Polygon', coordinates: [[...clean, clean[0]]] }, tool, {});
+        } else if (tool === 'polyline' && clean.length >= 2) {
+            onComplete({ type: 'LineString', coordinates: clean }, tool, {});
+        }
+        reset();
+    };
+
+    const finishDrag = (start: Coordinate, end: Coordinate) => {
+        if (start[0] === end[0] && start[1] === end[1]) return reset();
+
+        if (tool === 'rectangle') {
+            const [minX, maxX] = [Math.min(start[0], end[0]), Math.max(start[0], end[0])];
+            const [minY, maxY] = [Math.min(start[1], end[1]), Math.max(start[1], end[1])];
+            onComplete(turf.bboxPolygon([minX, minY, maxX, maxY]).geometry as Geometry, tool, {});
+        } else if (tool === 'circle') {
+            const radiusKm = turf.distance(start, end, { units: 'kilometers' });
+            onComplete(createCirclePolygon(start, radiusKm, circleSegments), tool, {
+                center: start,
+                radius_m: Math.round(radiusKm * 1000),
+                segments: circleSegments
+            });
+        }
+        reset();
+    };
+
+    useMapEvents({
+        mousedown: (e) => {
+            if (e.originalEvent.button !== 0) return;
+            map.dragging.disable();
+            pressStart.current = e.containerPoint;
+            if (!isPath) setAnchor(toCoordinate(e.latlng));
+        },
+        mousemove: (e) => {
+            const coord = toCoordinate(e.latlng);
+            setCursor(coord);
+
+            if (isPath && pressStart.current) {
+                if (!freehand.current && e.containerPoint.distanceTo(pressStart.current) > FREEHAND_THRESHOLD_PX) {
+                    freehand.current = [...points, toCoordinate(map.containerPointToLatLng(pressStart.current))];
+                    setSketching(true);
+                }
+                if (freehand.current) {
+                    const last = freehand.current[freehand.current.length - 1];
+                    const lastPoint = map.latLngToContainerPoint(toLatLng(last));
+                    if (e.containerPoint.distanceTo(lastPoint) > FREEHAND_THRESHOLD_PX) {
+                        freehand.current = [...freehand.current, coord];
+                        setPoints(freehand.current);
+                    }
+                }
+            }
+        },
+        mouseup: (e) => {
+            if (!pressStart.current) return;
+            pressStart.current = null;
+            map.dragging.enable();
+            const coord = toCoordinate(e.latlng);
+
+            if (!isPath) {
+                if (anchor) finishDrag(anchor, coord);
+                return;
+            }
+
+            if (freehand.current) {
+                finishPath([...freehand.current, coord]);
+                return;
+            }
+
+            // Plain click: close the polygon on its first vertex, otherwise add a vertex
+            if (tool === 'polygon' && points.length >= 3) {
+                const first = map.latLngToContainerPoint(toLatLng(points[0]));
+                if (e.containerPoint.distanceTo(first) < CLOSE_THRESHOLD_PX) {
+                    finishPath(points);
+                    return;
+                }
+            }
+            setPoints([...points, coord]);
+        },
+        dblclick: () => {
+            if (isPath) finishPath(points);
+        }
+    });
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                if (points.length > 0 || anchor) reset();
+                else onCancel();
+            } else if (e.key === 'Enter' && isPath) {
+                finishPath(points);
+            } else if (e.key === 'Backspace' && isPath && points.length > 0) {
+                setPoints(points.slice(0, -1));
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    });
+
+    const previewStyle = { color: '#58a6ff', weight: 2, dashArray: '6 4', fillOpacity: 0.1 };
+
+    if (isPath && points.length > 0) {
+        const path = cursor && !sketching ? [...points, cursor] : points;
+        return tool === 'polygon' && path.length >= 3
+            ? <Polygon positions={path.map(toLatLng)} pathOptions={previewStyle} />
+            : <Polyline positions={path.map(toLatLng)} pathOptions={previewStyle} />;
+    }
+
+    if (anchor && cursor) {
+        if (tool === 'rectangle') {
+            return <Rectangle bounds={L.latLngBounds(toLatLng(anchor), toLatLng(cursor))} pathOptions={previewStyle} />;
+        }
+        if (tool === 'circle') {
+            const radiusKm = turf.distance(anchor, cursor, { units: 'kilometers' });
+            if (radiusKm > 0) {
+                const circle = createCirclePolygon(anchor, radiusKm, circleSegments);
+                return circle.type === 'Polygon'
+                    ? <Polygon positions={circle.coordinates[0].map(toLatLng)} pathOptions={previewStyle} />
+                    : null;
+            }
+        }
+    }
+
+    return null;
+};
+
+export default DrawingLayer;
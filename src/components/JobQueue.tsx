@@ -0,0 +1,51 @@
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+import type { QueuedJob } from '../utils/geometryQueue';
+
+interface JobQueueProps {
+    jobs: QueuedJob[];
+    onCancel: (id: number) => void;
+}
+
+/**
+ * Floating list of geometry jobs: the running one with its progress, then those waiting.
+ */
+const JobQueue: React.FC<JobQueueProps> = ({ jobs, onCancel }) => {
+    if (jobs.length === 0) return null;
+
+    return (
+        <div className="job-queue">
+            {jobs.map(job => {
+                const progress = job.progress;
+                // Each item counts as one unit; the bar shows items finished, not steps
+                const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+                return (
+                    <div key={job.id} className={`job ${job.running ? 'running' : ''}`}>
+                        <div className="job-header">
+                            {job.running && <Loader2 size={12} className="spin" />}
+                            <span className="job-label" title={job.label}>{job.label}</span>
+                            <button className="icon-btn" onClick={() => onCancel(job.id)} title="Cancel">
+                                <X size={12} />
+                            </button>
+                        </div>
+                        <div className="job-status">
+                            {!job.running
+                                ? 'Waiting'
+                                : progress
+                                    ? `${progress.step}${progress.total > 1 ? ` (${progress.done + 1}/${progress.total})` : ''}`
+                                    : 'Starting'}
+                        </div>
+                        {job.running && (
+                            <div className="job-progress">
+                                <div style={{ width: `${percent}%` }} />
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default JobQueue;
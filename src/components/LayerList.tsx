@@ -0,0 +1,408 @@
+import React, { useState } from 'react';
+import { Download, Eye, EyeOff, Folder, FolderInput, FolderOutput, Layers, LocateFixed, Trash2, X } from 'lucide-react';
+import type { Layer } from '../types';
+import { ValidationBadge } from './ValidationPanel';
+import {
+    LAYER_SOURCES,
+    folderPathOf,
+    groupLayers,
+    layersInGroup,
+    moveLayers,
+    renameGroup,
+    renameLayer,
+    ungroupLayers
+} from '../utils/layerUtils';
+
+interface LayerListProps {
+    layers: Layer[];
+    selectedLayerId: string | null;
+    onSelectLayer: (layerId: string) => void;
+    onLayersChange: (change: (layers: Layer[]) => Layer[], coalesceKey?: string) => void;
+    onLayersDelete: (layerIds: string[]) => void;
+    onLayerToggleVisibility: (layerId: string) => void;
+    onZoomToLayers: (layerIds: string[]) => void;
+    onDownloadKml: (layerIds: string[]) => void;
+    onDownloadKmz: (layerIds: string[]) => void;
+    onDownloadGeoJson: (layerIds: string[]) => void;
+}
+
+// Drop targets while dragging: before a layer, into a group (by its path), or the end of the list outside any group
+type DropTarget = { layerId: string } | { group: string[] } | 'end';
+
+const groupKey = (path: string[]) => path.join('\u0000');
+
+/**
+ * The layer list: select (Ctrl/Shift for several), rename, drag to reorder or regroup,
+ * filter, and act on several layers at once. Layers lower in the list draw on top.
+ */
+const LayerList: React.FC<LayerListProps> = ({
+    layers,
+    selectedLayerId,
+    onSelectLayer,
+    onLayersChange,
+    onLayersDelete,
+    onLayerToggleVisibility,
+    onZoomToLayers,
+    onDownloadKml,
+    onDownloadKmz,
+    onDownloadGeoJson
+}) => {
+    const [filter, setFilter] = useState('');
+    const [sourceFilter, setSourceFilter] = useState<Layer['source'] | ''>('');
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [anchorId, setAnchorId] = useState<string | null>(null);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [dragIds, setDragIds] = useState<Set<string> | null>(null);
+    const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+    const query = filter.trim().toLowerCase();
+    const shown = layers.filter(layer =>
+        (!query || layer.name.toLowerCase().includes(query)) && (!sourceFilter || layer.source === sourceFilter)
+    );
+    // Deleted layers drop out of the selection on their own
+    const selection = layers.filter(l => selectedIds.includes(l.id));
+    const multiSelect = selection.length > 1;
+    const selectionIds = selection.map(l => l.id);
+
+    const handleRowClick = (e: React.MouseEvent, layer: Layer) => {
+        if (e.shiftKey && anchorId) {
+            const ids = shown.map(l => l.id);
+            const from = ids.indexOf(anchorId);
+            const to = ids.indexOf(layer.id);
+            if (from !== -1) {
+                setSelectedIds(ids.slice(Math.min(from, to), Math.max(from, to) + 1));
+                onSelectLayer(layer.id);
+                return;
+            }
+        }
+        if (e.ctrlKey || e.metaKey) {
+            const current = selection.length > 0 ? selectionIds : selectedLayerId ? [selectedLayerId] : [];
+            setSelectedIds(current.includes(layer.id) ? current.filter(id => id !== layer.id) : [...current, layer.id]);
+        } else {
+            setSelectedIds([layer.id]);
+        }
+        setAnchorId(layer.id);
+        onSelectLayer(layer.id);
+    };
+
+    const commitRename = (layerId: string, name: string) => {
+        setRenamingId(null);
+        const trimmed = name.trim();
+        const layer = layers.find(l => l.id === layerId);
+        if (!trimmed || !layer || trimmed === layer.name) return;
+        onLayersChange(current => current.map(l => (l.id === layerId ? renameLayer(l, trimmed) : l)));
+    };
+
+    const handleGroupRename = (path: string[]) => {
+        const name = prompt('Group name', path[path.length - 1])?.trim();
+        if (name && name !== path[path.length - 1]) onLayersChange(current => renameGroup(current, path, name));
+    };
+
+    const handleGroup = () => {
+        const name = prompt('Name of the new group')?.trim();
+        if (name) onLayersChange(current => groupLayers(current, new Set(selectionIds), name));
+    };
+
+    const handleBulkDelete = () => {
+        if (confirm(`Delete ${selection.length} layers?`)) {
+            onLayersDelete(selectionIds);
+            setSelectedIds([]);
+        }
+    };
+
+    // Dragging a layer that is part of the selection drags the whole selection
+    const handleDragStart = (e: React.DragEvent, layer: Layer) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', layer.name);
+        setDragIds(new Set(multiSelect && selectionIds.includes(layer.id) ? selectionIds : [layer.id]));
+    };
+
+    const handleDragEnd = () => {
+        setDragIds(null);
+        setDropTarget(null);
+    };
+
+    const dropHandlers = (target: DropTarget) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (!dragIds) return;
+            e.preventDefault();
+            if (JSON.stringify(target) !== JSON.stringify(dropTarget)) setDropTarget(target);
+        },
+        onDrop: (e: React.DragEvent) => {
+            if (!dragIds) return;
+            e.preventDefault();
+            const ids = dragIds;
+            if (target === 'end') {
+                onLayersChange(current => moveLayers(current, ids, null, []));
+            } else if ('group' in target) {
+                onLayersChange(current => moveLayers(current, ids, layersInGroup(current, target.group)[0]?.id ?? null, target.group));
+            } else {
+                onLayersChange(current => {
+                    const before = current.find(l => l.id === target.layerId);
+                    return before ? moveLayers(current, ids, before.id, folderPathOf(before)) : current;
+                });
+            }
+            handleDragEnd();
+        }
+    });
+
+    const isDropTarget = (target: DropTarget) => dropTarget !== null && JSON.stringify(target) === JSON.stringify(dropTarget);
+
+    // Folder headings to render above a layer: every level where its path differs from the previous layer's
+    const folderHeadingsBefore = (index: number): { path: string[]; depth: number }[] => {
+        const path = folderPathOf(shown[index]);
+        const previous = folderPathOf(shown[index - 1]);
+        let depth = 0;
+        while (depth < path.length && depth < previous.length && path[depth] === previous[depth]) depth++;
+        return path.slice(depth).map((_, i) => ({ path: path.slice(0, depth + i + 1), depth: depth + i }));
+    };
+
+    const anyVisible = selection.some(l => l.visible);
+
+    return (
+        <div style={{ marginTop: '20px', marginBottom: '20px' }}>
+            <div style={{
+                color: 'var(--text-secondary)',
+                fontSize: '0.7rem',
+                textTransform: 'uppercase',
+                marginBottom: '8px',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px'
+            }}>
+                <Layers size={14} />
+                Layers ({shown.length < layers.length ? `${shown.length} of ${layers.length}` : layers.length})
+            </div>
+
+            <div className="layer-filter">
+                <input
+                    className="plain-input"
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Filter by name"
+                />
+                <select
+                    className="select"
+                    value={sourceFilter}
+                    onChange={(e) => setSourceFilter(e.target.value as Layer['source'] | '')}
+                >
+                    <option value="">All sources</option>
+                    {LAYER_SOURCES.map(s => (
+                        <option key={s.value} value={s.value}>{s.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {multiSelect && (
+                <div className="bulk-bar">
+                    <span style={{ flex: 1 }}>{selection.length} selected</span>
+                    <button
+                        className="icon-btn"
+                        onClick={() => onLayersChange(current => current.map(l => (selectionIds.includes(l.id) ? { ...l, visible: !anyVisible } : l)))}
+                        title={anyVisible ? 'Hide selected' : 'Show selected'}
+                    >
+                        {anyVisible ? <EyeOff size={14} /> : <Eye size={14} />}
+                    </button>
+                    <button className="icon-btn" onClick={() => onZoomToLayers(selectionIds)} title="Zoom to selected">
+                        <LocateFixed size={14} />
+                    </button>
+                    <input
+                        type="color"
+                        value={selection[0].color}
+                        onChange={(e) => {
+                            const color = e.target.value;
+                            onLayersChange(current => current.map(l => (selectionIds.includes(l.id) ? { ...l, color } : l)), 'recolor');
+                        }}
+                        title="Recolour selected"
+                    />
+                    <button className="icon-btn" onClick={handleGroup} title="Group selected">
+                        <FolderInput size={14} />
+                    </button>
+                    <button
+                        className="icon-btn"
+                        onClick={() => onLayersChange(current => ungroupLayers(current, new Set(selectionIds)))}
+                        disabled={!selection.some(l => folderPathOf(l).length > 0)}
+                        title="Move selected out of their group"
+                    >
+                        <FolderOutput size={14} />
+                    </button>
+                    <button className="icon-btn" onClick={handleBulkDelete} title="Delete selected" style={{ color: '#ff7b72' }}>
+                        <Trash2 size={14} />
+                    </button>
+                    <button className="icon-btn" onClick={() => setSelectedIds([])} title="Clear selection">
+                        <X size={14} />
+                    </button>
+                    <div className="bulk-exports">
+                        <Download size={12} />
+                        <button className="link-btn" onClick={() => onDownloadKml(selectionIds)}>KML</button>
+                        <button className="link-btn" onClick={() => onDownloadKmz(selectionIds)}>KMZ</button>
+                        <button className="link-btn" onClick={() => onDownloadGeoJson(selectionIds)}>GeoJSON</button>
+                    </div>
+                </div>
+            )}
+
+            <div
+                style={{
+                    maxHeight: '260px',
+                    overflowY: 'auto',
+                    border: '1px solid var(--border-color)',
+                    borderRadius: '4px',
+                    padding: '4px'
+                }}
+                title="Ctrl- or Shift-click to select several layers; drag to reorder. Lower layers draw on top."
+            >
+                {shown.length === 0 && (
+                    <div style={{ color: 'var(--text-secondary)', fontSize: '0.8rem', padding: '10px' }}>
+                        No layers match the filter.
+                    </div>
+                )}
+                {shown.map((layer, index) => {
+                    const highlighted = selectedLayerId === layer.id || (multiSelect && selectionIds.includes(layer.id));
+                    return (
+                        <React.Fragment key={layer.id}>
+                            {folderHeadingsBefore(index).map(heading => (
+                                <div
+                                    key={groupKey(heading.path)}
+                                    className={`layer-group ${isDropTarget({ group: heading.path }) ? 'drop-target' : ''}`}
+                                    style={{ paddingLeft: `${8 + heading.depth * 12}px` }}
+                                    onDoubleClick={() => handleGroupRename(heading.path)}
+                                    title="Double-click to rename; drop layers here to move them into the group"
+                                    {...dropHandlers({ group: heading.path })}
+                                >
+                                    <Folder size={12} />
+                                    <span style={{ flex: 1 }}>{heading.path[heading.path.length - 1]}</span>
+                                    <button
+                                        className="icon-btn"
+                                        onClick={() => onZoomToLayers(layersInGroup(layers, heading.path).map(l => l.id))}
+                                        title="Zoom to group"
+                                    >
+                                        <LocateFixed size={12} />
+                                    </button>
+                                </div>
+                            ))}
+                            <div
+                                draggable={renamingId !== layer.id}
+                                onDragStart={(e) => handleDragStart(e, layer)}
+                                onDragEnd={handleDragEnd}
+                                {...dropHandlers({ layerId: layer.id })}
+                                onClick={(e) => handleRowClick(e, layer)}
+                                className={`layer-row ${isDropTarget({ layerId: layer.id }) ? 'drop-target' : ''}`}
+                                style={{
+                                    padding: '8px',
+                                    paddingLeft: `${8 + folderPathOf(layer).length * 12}px`,
+                                    marginBottom: '4px',
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    backgroundColor: highlighted
+                                        ? 'var(--accent-color)' + '20'
+                                        : 'transparent',
+                                    border: selectedLayerId === layer.id
+                                        ? `1px solid ${layer.color}`
+                                        : '1px solid transparent',
+                                    opacity: dragIds?.has(layer.id) ? 0.5 : 1,
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '8px',
+                                    fontSize: '0.85rem'
+                                }}
+                            >
+                                <div
+                                    style={{
+                                        width: '12px',
+                                        height: '12px',
+                                        borderRadius: '2px',
+                                        backgroundColor: layer.color,
+                                        flexShrink: 0
+                                    }}
+                                />
+                                {renamingId === layer.id ? (
+                                    <input
+                                        className="plain-input"
+                                        autoFocus
+                                        defaultValue={layer.name}
+                                        onClick={(e) => e.stopPropagation()}
+                                        onBlur={(e) => commitRename(layer.id, e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitRename(layer.id, e.currentTarget.value);
+                                            if (e.key === 'Escape') setRenamingId(null);
+                                        }}
+                                        style={{ flex: 1, minWidth: 0, padding: '2px 4px' }}
+                                    />
+                                ) : (
+                                    <span
+                                        style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                                        onDoubleClick={() => setRenamingId(layer.id)}
+                                        title={`${layer.name}\nDouble-click to rename`}
+                                    >
+                                        {layer.name}
+                                    </span>
+                                )}
+                                <ValidationBadge feature={layer.feature} />
+                                {layer.edited && (
+                                    <span className="layer-badge" title="Edited by hand since it was last processed">
+                                        edited
+                                    </span>
+                                )}
+                                <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                                    <button
+                                        className="icon-btn"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onZoomToLayers([layer.id]);
+                                        }}
+                                        title="Zoom to layer"
+                                    >
+                                        <LocateFixed size={14} />
+                                    </button>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onLayerToggleVisibility(layer.id);
+                                        }}
+                                        style={{
+                                            background: 'none',
+                                            border: 'none',
+                                            cursor: 'pointer',
+                                            padding: '2px',
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            color: layer.visible ? 'var(--text-primary)' : 'var(--text-secondary)'
+                                        }}
+                                        title={layer.visible ? 'Hide layer' : 'Show layer'}
+                                    >
+                                        {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                                    </button>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onLayersDelete([layer.id]);
+                                        }}
+                                        style={{
+                                            background: 'none',
+                                            border: 'none',
+                                            cursor: 'pointer',
+                                            padding: '2px',
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            color: '#ff7b72'
+                                        }}
+                                        title="Delete layer"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            </div>
+                        </React.Fragment>
+                    );
+                })}
+                {dragIds && (
+                    <div className={`layer-drop-end ${isDropTarget('end') ? 'drop-target' : ''}`} {...dropHandlers('end')}>
+                        Drop here to move to the end, outside any group
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default LayerList;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Combine, ChevronDown, ChevronRight } from 'lucide-react';
+import type { Feature, Layer } from '../types';
+import {
+    BOOLEAN_OPERATIONS,
+    getSharedProperties,
+    runBooleanOperation,
+    type BooleanOperation
+} from '../utils/booleanUtils';
+
+interface LayerOperationsPanelProps {
+    layers: Layer[];
+    onCreateLayers: (features: Feature[], operation: BooleanOperation) => void;
+}
+
+const LayerOperationsPanel: React.FC<LayerOperationsPanelProps> = ({ layers, onCreateLayers }) => {
+    const [open, setOpen] = useState(false);
+    // Operand order matters for difference, so keep ids in the order they were ticked
+    const [operandIds, setOperandIds] = useState<string[]>([]);
+    const [operation, setOperation] = useState<BooleanOperation>('union');
+    const [dissolveProperty, setDissolveProperty] = useState('');
+    const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+    const operands = operandIds
+        .map(id => layers.find(l => l.id === id))
+        .filter((l): l is Layer => Boolean(l));
+    const sharedProperties = getSharedProperties(operands);
+
+    const toggleOperand = (layerId: string) => {
+        setMessage(null);
+        setOperandIds(prev => prev.includes(layerId)
+            ? prev.filter(id => id !== layerId)
+            : [...prev, layerId]);
+    };
+
+    const handleRun = () => {
+        try {
+            const features = runBooleanOperation(operands, operation, { dissolveProperty });
+            onCreateLayers(features, operation);
+            setMessage({ type: 'success', text: `Created ${features.length} layer${features.length === 1 ? '' : 's'}.` });
+            setOperandIds([]);
+        } catch (error) {
+            setMessage({ type: 'error', text: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    if (layers.length === 0) return null;
+
+    return (
+        <div style={{ marginBottom: '20px' }}>
+            <button
+                className="section-toggle"
+                onClick={() => setOpen(!open)}
+            >
+                {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                <Combine size={14} />
+                Layer Operations
+            </button>
+
+            {open && (
+                <div className="panel">
+                    <select
+                        className="select"
+                        value={operation}
+                        onChange={(e) => {
+                            setOperation(e.target.value as BooleanOperation);
+                            setMessage(null);
+                        }}
+                        style={{ width: '100%', marginBottom: '6px' }}
+                    >
+                        {BOOLEAN_OPERATIONS.map(op => (
+                            <option key={op.value} value={op.value}>{op.label}</option>
+                        ))}
+                    </select>
+                    <div style={{ color: 'var(--text-secondary)', fontSize: '0.75rem', marginBottom: '8px' }}>
+                        {BOOLEAN_OPERATIONS.find(op => op.value === operation)?.description}
+                        {operation === 'difference' && operands[0] && ` (keeping ${operands[0].name.split(',')[0]})`}
+                    </div>
+
+                    <div style={{ maxHeight: '140px', overflowY: 'auto', marginBottom: '8px' }}>
+                        {layers.map(layer => (
+                            <label
+                                key={layer.id}
+                                style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '0.8rem', padding: '3px 0', cursor: 'pointer' }}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={operandIds.includes(layer.id)}
+                                    onChange={() => toggleOperand(layer.id)}
+                                    style={{ width: 'auto' }}
+                                />
+                                <span style={{ width: '10px', height: '10px', borderRadius: '2px', backgroundColor: layer.color, flexShrink: 0 }} />
+                                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                    {operation === 'difference' && operandIds[0] === layer.id ? '(base) ' : ''}
+                                    {layer.name}
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+
+                    {operation === 'dissolve' && (
+                        <select
+                            className="select"
+                            value={dissolveProperty}
+                            onChange={(e) => setDissolveProperty(e.target.value)}
+                            style={{ width: '100%', marginBottom: '8px' }}
+                        >
+                            <option value="">Dissolve by property…</option>
+                            {sharedProperties.map(p => <option key={p} value={p}>{p}</option>)}
+                        </select>
+                    )}
+
+                    <button
+                        className="btn btn-secondary"
+                        onClick={handleRun}
+                        disabled={operands.length === 0}
+                    >
+                        Run on {operands.length} layer{operands.length === 1 ? '' : 's'}
+                    </button>
+
+                    {message && (
+                        <div className={`panel-message ${message.type}`}>
+                            {message.text}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LayerOperationsPanel;
@@ -1,8 +1,17 @@
-import React, { useEffect, useState } from 'react';
-import { MapContainer, TileLayer, GeoJSON, useMap, Marker } from 'react-leaflet';
+import React, { useEffect, useRef, useState } from 'react';
+import { MapContainer, TileLayer, GeoJSON, CircleMarker, Rectangle, Tooltip, useMap } from 'react-leaflet';
 import L from 'leaflet';
+import * as turf from '@turf/turf';
+import type { Feature as GeoJSONFeature, Geometry as GeoJSONGeometry } from 'geojson';
 import 'leaflet/dist/leaflet.css';
-import type { Feature, Layer } from '../types';
+import { Pentagon, Square, Circle, Spline, Ruler, LandPlot, X } from 'lucide-react';
+import type { DrawTool, Feature, Geometry, Layer, MeasureMode } from '../types';
+import VertexEditor from './VertexEditor';
+import DrawingLayer from './DrawingLayer';
+import MeasureLayer from './MeasureLayer';
+import { ISSUE_LABELS, validateGeometry } from '../utils/validationUtils';
+import { UNIT_SYSTEMS, type UnitSystem } from '../utils/unitUtils';
+import { DASH_ARRAY, getLayerStyle } from '../utils/styleUtils';
 
 // Fix for default marker icons in Leaflet
 import icon from 'leaflet/dist/images/marker-icon.png';
@@ -17,99 +26,232 @@ let DefaultIcon = L.icon({
 
 L.Marker.prototype.options.icon = DefaultIcon;
 
+export interface ZoomRequest {
+    layerIds: string[];
+}
+
 interface MapComponentProps {
     layers: Layer[];
     selectedLayerId: string | null;
     onLayerUpdate: (layerId: string, feature: Feature) => void;
+    onFileDrop: (files: File[]) => void;
+    onTextDrop: (text: string) => void;
+    onDrawComplete: (geometry: Geometry, tool: DrawTool, properties: Record<string, unknown>) => void;
+    zoomRequest: ZoomRequest | null;
+    /** Extent of the search result being hovered, outlined until the pointer leaves it. */
+    previewBounds?: [[number, number], [number, number]] | null;
+    units: UnitSystem;
+    onUnitsChange: (units: UnitSystem) => void;
 }
 
-const FitBounds: React.FC<{ layers: Layer[] }> = ({ layers }) => {
+// react-leaflet's GeoJSON never re-reads `data`, so each layer is keyed on its geometry's
+// revision and remounted when the geometry is replaced (edits, undo, simplify, repair, reprocess)
+let nextRevision = 0;
+const geometryRevisions = new WeakMap<Geometry, number>();
+const geometryRevision = (geometry: Geometry): number => {
+    let revision = geometryRevisions.get(geometry);
+    if (revision === undefined) {
+        revision = ++nextRevision;
+        geometryRevisions.set(geometry, revision);
+    }
+    return revision;
+};
+
+// Label anchors are a point inside the geometry; cached because geometries are replaced, never mutated
+const labelPositions = new WeakMap<Geometry, [number, number]>();
+const labelPosition = (geometry: Geometry): [number, number] => {
+    let position = labelPositions.get(geometry);
+    if (!position) {
+        const [lng, lat] = turf.pointOnFeature(geometry as unknown as GeoJSONGeometry).geometry.coordinates;
+        position = [lat, lng];
+        labelPositions.set(geometry, position);
+    }
+    return position;
+};
+
+const DRAW_TOOLS: { tool: DrawTool; label: string; icon: React.ReactNode }[] = [
+    { tool: 'polygon', label: 'Polygon (click points or drag freehand)', icon: <Pentagon size={16} /> },
+    { tool: 'rectangle', label: 'Rectangle (drag)', icon: <Square size={16} /> },
+    { tool: 'circle', label: 'Circle (drag from centre)', icon: <Circle size={16} /> },
+    { tool: 'polyline', label: 'Polyline (click points, double-click to finish)', icon: <Spline size={16} /> },
+];
+
+const MEASURE_MODES: { mode: MeasureMode; label: string; icon: React.ReactNode }[] = [
+    { mode: 'distance', label: 'Measure distance', icon: <Ruler size={16} /> },
+    { mode: 'area', label: 'Measure area', icon: <LandPlot size={16} /> },
+];
+
+const boundsOf = (layers: Layer[]) => {
+    const bounds = L.latLngBounds([]);
+    layers.forEach(layer => bounds.extend(L.geoJSON(layer.feature as unknown as GeoJSONFeature).getBounds()));
+    return bounds;
+};
+
+/**
+ * Fits the view to layers as they are added (searches, imports, an opened project)
+ * and to the layers in each zoom request, but not to edits or visibility changes.
+ */
+const FitBounds: React.FC<{ layers: Layer[]; zoomRequest: ZoomRequest | null }> = ({ layers, zoomRequest }) => {
     const map = useMap();
+    const knownIds = useRef(new Set<string>());
+    const handledRequest = useRef<ZoomRequest | null>(null);
+
     useEffect(() => {
-        const visibleLayers = layers.filter(l => l.visible);
-        if (visibleLayers.length > 0) {
-            const bounds = L.latLngBounds([]);
-            visibleLayers.forEach(layer => {
-                if (layer.feature && layer.feature.geometry) {
-                    const geojsonLayer = L.geoJSON(layer.feature as any);
-                    bounds.extend(geojsonLayer.getBounds());
-                }
-            });
-            if (bounds.isValid()) {
-                map.fitBounds(bounds, { padding: [50, 50] });
-            }
-        }
+        const added = layers.filter(l => l.visible && !knownIds.current.has(l.id));
+        knownIds.current = new Set(layers.map(l => l.id));
+        const bounds = boundsOf(added);
+        if (bounds.isValid()) map.fitBounds(bounds, { padding: [50, 50] });
     }, [layers, map]);
+
+    useEffect(() => {
+        if (!zoomRequest || zoomRequest === handledRequest.current) return;
+        handledRequest.current = zoomRequest;
+        const bounds = boundsOf(layers.filter(l => zoomRequest.layerIds.includes(l.id)));
+        if (bounds.isValid()) map.fitBounds(bounds, { padding: [50, 50] });
+    }, [zoomRequest, layers, map]);
+
     return null;
 };
 
-const MapComponent: React.FC<MapComponentProps> = ({ layers, selectedLayerId, onLayerUpdate }) => {
-    const [points, setPoints] = useState<[number, number][]>([]);
-    
-    const selectedLayer = layers.find(l => l.id === selectedLayerId);
-    const feature = selectedLayer?.feature || null;
-
+/**
+ * Keeps the map's stacking in list order: react-leaflet adds layers in mount order,
+ * so a reordered list doesn't move anything on its own, and a layer remounted for a
+ * new geometry lands on top. Layers are sent to the back rather than the front so
+ * highlights and vertex handles stay above them.
+ */
+const LayerOrder: React.FC<{ layers: Layer[]; leafletLayers: React.RefObject<Map<string, L.GeoJSON>> }> = ({ layers, leafletLayers }) => {
+    const stackedKey = useRef('');
     useEffect(() => {
-        if (feature && feature.geometry) {
-            const geom = feature.geometry;
-            if (geom.type === 'Polygon') {
-                const coords = geom.coordinates[0] as [number, number][];
-                setPoints(coords.map(c => [c[1], c[0]]));
-            } else if (geom.type === 'MultiPolygon') {
-                // For MultiPolygon, we'll only allow editing the first (usually largest) polygon for now
-                // but we show all points if below threshold
-                const firstPoly = geom.coordinates[0];
-                const coords = firstPoly[0] as [number, number][];
-                setPoints(coords.map(c => [c[1], c[0]]));
-            } else {
-                setPoints([]);
-            }
-        } else {
-            setPoints([]);
-        }
-    }, [feature]);
-
-    const handleDrag = (index: number, newLatLng: L.LatLng) => {
-        if (!selectedLayerId || !feature) return;
+        const key = layers.filter(l => l.visible).map(l => `${l.id}-${geometryRevision(l.feature.geometry)}`).join('|');
+        if (key === stackedKey.current) return;
+        stackedKey.current = key;
+        [...layers].reverse().forEach(layer => leafletLayers.current?.get(layer.id)?.bringToBack());
+    }, [layers, leafletLayers]);
+    return null;
+};
 
-        const newPoints = [...points];
-        newPoints[index] = [newLatLng.lat, newLatLng.lng];
+const MapComponent: React.FC<MapComponentProps> = ({
+    layers,
+    selectedLayerId,
+    onLayerUpdate,
+    onFileDrop,
+    onTextDrop,
+    onDrawComplete,
+    zoomRequest,
+    previewBounds,
+    units,
+    onUnitsChange
+}) => {
+    const leafletLayers = useRef(new Map<string, L.GeoJSON>());
+    const [dragActive, setDragActive] = useState(false);
+    const [drawTool, setDrawTool] = useState<DrawTool | null>(null);
+    const [circleSegments, setCircleSegments] = useState(64);
+    // Measuring and drawing both take over map clicks, so only one can be active
+    const [measureMode, setMeasureMode] = useState<MeasureMode | null>(null);
+    
+    const selectedLayer = layers.find(l => l.id === selectedLayerId);
 
-        if (index === 0) newPoints[newPoints.length - 1] = [newLatLng.lat, newLatLng.lng];
-        if (index === newPoints.length - 1) newPoints[0] = [newLatLng.lat, newLatLng.lng];
+    const handleDragOver = (e: React.DragEvent) => {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        if (!dragActive) setDragActive(true);
+    };
 
-        setPoints(newPoints);
+    const handleDragLeave = (e: React.DragEvent) => {
+        // Ignore leave events fired when moving between child elements
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+            setDragActive(false);
+        }
+    };
 
-        const geom = feature.geometry;
-        let newCoordinates: any;
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setDragActive(false);
 
-        if (geom.type === 'Polygon') {
-            newCoordinates = [newPoints.map(p => [p[1], p[0]])];
-        } else if (geom.type === 'MultiPolygon') {
-            // Update only the first polygon's outer ring
-            newCoordinates = [...geom.coordinates];
-            newCoordinates[0] = [newPoints.map(p => [p[1], p[0]]), ...newCoordinates[0].slice(1)];
+        const files = Array.from(e.dataTransfer.files);
+        if (files.length > 0) {
+            onFileDrop(files);
+            return;
+        }
+        const text = e.dataTransfer.getData('text/plain');
+        if (text.trim()) {
+            onTextDrop(text);
         }
-
-        const updatedFeature: Feature = {
-            ...feature,
-            geometry: {
-                ...geom,
-                coordinates: newCoordinates
-            } as any
-        };
-        onLayerUpdate(selectedLayerId, updatedFeature);
     };
 
-    const vertexIcon = L.divIcon({
-        className: 'vertex-marker',
-        html: '<div style="background-color: var(--accent-color); width: 8px; height: 8px; border-radius: 50%; border: 2px solid white;"></div>',
-        iconSize: [12, 12],
-        iconAnchor: [6, 6]
-    });
-
     return (
-        <div className="map-container">
+        <div
+            className="map-container"
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+        >
+            <div className="draw-toolbar">
+                {DRAW_TOOLS.map(({ tool, label, icon }) => (
+                    <button
+                        key={tool}
+                        className={`draw-btn ${drawTool === tool ? 'active' : ''}`}
+                        onClick={() => {
+                            setDrawTool(drawTool === tool ? null : tool);
+                            setMeasureMode(null);
+                        }}
+                        title={`Draw ${label}`}
+                    >
+                        {icon}
+                    </button>
+                ))}
+                {drawTool === 'circle' && (
+                    <label className="draw-option" title="Number of polygon segments used for the circle">
+                        Segments
+                        <input
+                            type="number"
+                            min={8}
+                            max={360}
+                            value={circleSegments}
+                            onChange={(e) => setCircleSegments(Math.max(8, Math.min(360, Number(e.target.value) || 64)))}
+                        />
+                    </label>
+                )}
+                {MEASURE_MODES.map(({ mode, label, icon }) => (
+                    <button
+                        key={mode}
+                        className={`draw-btn ${measureMode === mode ? 'active' : ''}`}
+                        onClick={() => {
+                            setMeasureMode(measureMode === mode ? null : mode);
+                            setDrawTool(null);
+                        }}
+                        title={`${label} (click points, double-click to finish)`}
+                    >
+                        {icon}
+                    </button>
+                ))}
+                {measureMode && (
+                    <label className="draw-option" title="Units for measurements">
+                        <select value={units} onChange={(e) => onUnitsChange(e.target.value as UnitSystem)}>
+                            {UNIT_SYSTEMS.map(u => (
+                                <option key={u.value} value={u.value}>{u.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                {(drawTool || measureMode) && (
+                    <button
+                        className="draw-btn"
+                        onClick={() => {
+                            setDrawTool(null);
+                            setMeasureMode(null);
+                        }}
+                        title={drawTool ? 'Stop drawing (Esc)' : 'Stop measuring (Esc)'}
+                    >
+                        <X size={16} />
+                    </button>
+                )}
+            </div>
+            {dragActive && (
+                <div className="drop-overlay">
+                    Drop KML, KMZ, GeoJSON, TopoJSON or WKT to import
+                </div>
+            )}
             <MapContainer
                 center={[20, 0] as [number, number]}
                 zoom={2}
@@ -120,35 +262,95 @@ const MapComponent: React.FC<MapComponentProps> = ({ layers, selectedLayerId, on
                     attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
                     url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
                 />
-                {layers.filter(l => l.visible).map((layer) => (
-                    <GeoJSON
-                        key={layer.id}
-                        data={layer.feature as any}
-                        style={() => ({ 
-                            color: layer.color, 
-                            weight: selectedLayerId === layer.id ? 3 : 2, 
-                            fillOpacity: selectedLayerId === layer.id ? 0.3 : 0.15,
-                            opacity: selectedLayerId === layer.id ? 1 : 0.7
-                        })}
-                    />
+                {layers.filter(l => l.visible).map((layer) => {
+                    const style = getLayerStyle(layer);
+                    const selected = selectedLayerId === layer.id;
+                    return (
+                        <GeoJSON
+                            key={`${layer.id}-${geometryRevision(layer.feature.geometry)}`}
+                            ref={(leafletLayer) => {
+                                if (leafletLayer) leafletLayers.current.set(layer.id, leafletLayer);
+                                else leafletLayers.current.delete(layer.id);
+                            }}
+                            data={layer.feature as unknown as GeoJSONFeature}
+                            style={() => ({
+                                color: style.strokeColor,
+                                weight: selected ? style.strokeWidth + 1 : style.strokeWidth,
+                                dashArray: style.dashed ? DASH_ARRAY : undefined,
+                                fillColor: style.fillColor,
+                                fillOpacity: selected ? Math.min(1, style.fillOpacity * 2) : style.fillOpacity,
+                                opacity: selected ? 1 : 0.7
+                            })}
+                        />
+                    );
+                })}
+
+                {layers.filter(l => l.visible && getLayerStyle(l).showLabel).map(layer => (
+                    <CircleMarker
+                        key={`label-${layer.id}`}
+                        center={labelPosition(layer.feature.geometry)}
+                        radius={0}
+                        interactive={false}
+                        pathOptions={{ opacity: 0, fillOpacity: 0 }}
+                    >
+                        <Tooltip permanent direction="center" className="layer-label">{layer.name}</Tooltip>
+                    </CircleMarker>
                 ))}
 
-                {selectedLayer && selectedLayer.editable && points.length > 0 && points.length < 500 && points.map((p, i) => (
-                    <Marker
-                        key={`${i}-${p[0]}-${p[1]}`}
-                        position={p}
-                        draggable={true}
-                        icon={vertexIcon}
-                        eventHandlers={{
-                            dragend: (e: L.DragEndEvent) => {
-                                const marker = e.target as L.Marker;
-                                handleDrag(i, marker.getLatLng());
-                            }
-                        }}
+                {drawTool && (
+                    <DrawingLayer
+                        key={drawTool}
+                        tool={drawTool}
+                        circleSegments={circleSegments}
+                        onComplete={onDrawComplete}
+                        onCancel={() => setDrawTool(null)}
                     />
-                ))}
+                )}
+
+                {selectedLayer && selectedLayer.visible && validateGeometry(selectedLayer.feature.geometry).map((issue, index) =>
+                    issue.location && (
+                        <CircleMarker
+                            key={`${issue.kind}-${index}`}
+                            center={[issue.location[1], issue.location[0]]}
+                            radius={7}
+                            pathOptions={{
+                                color: issue.severity === 'error' ? '#ff7b72' : '#f59e0b',
+                                weight: 2,
+                                fillOpacity: 0.2
+                            }}
+                        >
+                            <Tooltip>{ISSUE_LABELS[issue.kind]}: {issue.message}</Tooltip>
+                        </CircleMarker>
+                    )
+                )}
+
+                {previewBounds && (
+                    <Rectangle
+                        bounds={previewBounds}
+                        interactive={false}
+                        pathOptions={{ color: '#f59e0b', weight: 2, dashArray: DASH_ARRAY, fill: false }}
+                    />
+                )}
+
+                {measureMode && (
+                    <MeasureLayer
+                        key={measureMode}
+                        mode={measureMode}
+                        units={units}
+                        onCancel={() => setMeasureMode(null)}
+                    />
+                )}
+
+                {!drawTool && !measureMode && selectedLayer && selectedLayer.editable && selectedLayer.visible && (
+                    <VertexEditor
+                        key={selectedLayer.id}
+                        layer={selectedLayer}
+                        onUpdate={onLayerUpdate}
+                    />
+                )}
 
-                <FitBounds layers={layers} />
+                <LayerOrder layers={layers} leafletLayers={leafletLayers} />
+                <FitBounds layers={layers} zoomRequest={zoomRequest} />
             </MapContainer>
         </div>
     );
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { CircleMarker, Polygon, Polyline, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import * as turf from '@turf/turf';
+import type { Coordinate, MeasureMode } from '../types';
+import { formatArea, formatDistance, type UnitSystem } from '../utils/unitUtils';
+
+interface MeasureLayerProps {
+    mode: MeasureMode;
+    units: UnitSystem;
+    onCancel: () => void;
+}
+
+const toCoordinate = (latLng: L.LatLng): Coordinate => [latLng.lng, latLng.lat];
+const toLatLng = (c: Coordinate): [number, number] => [c[1], c[0]];
+
+const dedupe = (points: Coordinate[]) =>
+    points.filter((p, i) => i === 0 || p[0] !== points[i - 1][0] || p[1] !== points[i - 1][1]);
+
+const lengthOf = (path: Coordinate[]) =>
+    path.length < 2 ? 0 : turf.length(turf.lineString(path), { units: 'meters' });
+
+/**
+ * Measures geodesic distances along a path, or the area and perimeter of a shape.
+ * Click to add points and double-click to finish; the result stays until the next
+ * click starts a new measurement. Backspace removes the last point and Escape clears.
+ */
+const MeasureLayer: React.FC<MeasureLayerProps> = ({ mode, units, onCancel }) => {
+    const map = useMap();
+    const [points, setPoints] = useState<Coordinate[]>([]);
+    const [cursor, setCursor] = useState<Coordinate | null>(null);
+    const [finished, setFinished] = useState(false);
+
+    useEffect(() => {
+        map.doubleClickZoom.disable();
+        map.getContainer().style.cursor = 'crosshair';
+        return () => {
+            map.doubleClickZoom.enable();
+            map.getContainer().style.cursor = '';
+        };
+    }, [map]);
+
+    useMapEvents({
+        click: (e) => {
+            const coord = toCoordinate(e.latlng);
+            if (finished) {
+                setPoints([coord]);
+                setFinished(false);
+            } else {
+                setPoints([...points, coord]);
+            }
+        },
+        mousemove: (e) => setCursor(toCoordinate(e.latlng)),
+        dblclick: () => {
+            // The two clicks of a double-click have already added the same point twice
+            setPoints(dedupe(points));
+            setFinished(true);
+        }
+    });
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                if (points.length > 0) {
+                    setPoints([]);
+                    setFinished(false);
+                } else {
+                    onCancel();
+                }
+            } else if (e.key === 'Backspace' && !finished && points.length > 0) {
+                setPoints(points.slice(0, -1));
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    });
+
+    if (points.length === 0) return null;
+
+    const path = dedupe(cursor && !finished ? [...points, cursor] : points);
+    const label = path[path.length - 1];
+    const style = { color: '#f59e0b', weight: 2, dashArray: '6 4', fillOpacity: 0.1 };
+
+    let text: string;
+    let shape: React.ReactNode;
+    if (mode === 'area' && path.length >= 3) {
+        const ring = [...path, path[0]];
+        text = `${formatArea(turf.area(turf.polygon([ring])), units)} · ${formatDistance(lengthOf(ring), units)} around`;
+        shape = <Polygon positions={path.map(toLatLng)} interactive={false} pathOptions={style} />;
+    } else {
+        text = formatDistance(lengthOf(path), units);
+        shape = <Polyline positions={path.map(toLatLng)} interactive={false} pathOptions={style} />;
+    }
+
+    return (
+        <>
+            {shape}
+            {points.map((point, i) => (
+                <CircleMarker key={i} center={toLatLng(point)} radius={3} interactive={false} pathOptions={{ ...style, dashArray: undefined, fillOpacity: 1 }} />
+            ))}
+            <CircleMarker center={toLatLng(label)} radius={0} interactive={false} pathOptions={{ opacity: 0 }}>
+                <Tooltip permanent direction="right" offset={[8, 0]}>{text}</Tooltip>
+            </CircleMarker>
+        </>
+    );
+};
+
+export default MeasureLayer;
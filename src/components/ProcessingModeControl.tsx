@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { LayerProcessing, ProcessingParams } from '../types';
+import { EDIT_MODES, FLATTENING_MODES } from '../utils/geometryUtils';
+
+interface ProcessingModeControlProps {
+    processing: LayerProcessing;
+    onChange: (processing: LayerProcessing) => void;
+    /** Name of the layer a change rebuilds, or null when it only sets the default for new layers. */
+    appliesTo: string | null;
+}
+
+interface ParamFieldProps {
+    label: string;
+    value: number;
+    step: number;
+    onCommit: (value: number) => void;
+}
+
+// Reprocessing is expensive, so a parameter only applies on blur or Enter
+const ParamField: React.FC<ParamFieldProps> = ({ label, value, step, onCommit }) => {
+    const [draft, setDraft] = useState(String(value));
+    const [lastValue, setLastValue] = useState(value);
+
+    // Undo or opening a project changes the value from outside
+    if (value !== lastValue) {
+        setLastValue(value);
+        setDraft(String(value));
+    }
+
+    const commit = () => {
+        const parsed = Number(draft);
+        if (Number.isFinite(parsed) && parsed >= 0 && parsed !== value) {
+            onCommit(parsed);
+        } else {
+            setDraft(String(value));
+        }
+    };
+
+    return (
+        <label className="param-row">
+            <span>{label}</span>
+            <input
+                className="plain-input"
+                type="number"
+                min={0}
+                step={step}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => e.key === 'Enter' && commit()}
+            />
+        </label>
+    );
+};
+
+/**
+ * Mode toggle for the boundary pipeline plus the parameters the chosen mode uses.
+ */
+const ProcessingModeControl: React.FC<ProcessingModeControlProps> = ({ processing, onChange, appliesTo }) => {
+    const { mode, params } = processing;
+    const update = (changes: Partial<ProcessingParams>) => onChange({ mode, params: { ...params, ...changes } });
+
+    return (
+        <div style={{ marginBottom: '20px' }}>
+            <div style={{ color: 'var(--text-secondary)', fontSize: '0.7rem', textTransform: 'uppercase', marginBottom: '4px' }}>
+                {appliesTo ? `Processing: ${appliesTo.split(',')[0]}` : 'Processing for new layers'}
+            </div>
+            <div className="mode-toggle">
+                {EDIT_MODES.map(m => (
+                    <button
+                        key={m.value}
+                        className={`mode-btn ${mode === m.value ? 'active' : ''}`}
+                        onClick={() => m.value !== mode && onChange({ mode: m.value, params })}
+                        title={m.description}
+                    >
+                        {m.label}
+                    </button>
+                ))}
+            </div>
+            <div style={{ color: 'var(--text-secondary)', fontSize: '0.75rem', marginBottom: '8px' }}>
+                {EDIT_MODES.find(m => m.value === mode)?.description}
+            </div>
+
+            {mode === 'approximate' && (
+                <ParamField label="Gap-filling buffer (km)" value={params.bufferKm} step={0.1} onCommit={(bufferKm) => update({ bufferKm })} />
+            )}
+            {mode === 'concaveHull' && (
+                <ParamField label="Alpha, longest edge (km)" value={params.concaveAlphaKm} step={1} onCommit={(concaveAlphaKm) => update({ concaveAlphaKm })} />
+            )}
+            <ParamField label="Drop islands below (km²)" value={params.minIslandAreaKm2} step={0.1} onCommit={(minIslandAreaKm2) => update({ minIslandAreaKm2 })} />
+            <ParamField label="Fill holes below (km²)" value={params.fillHolesBelowKm2} step={0.1} onCommit={(fillHolesBelowKm2) => update({ fillHolesBelowKm2 })} />
+            <label
+                className="param-row"
+                title={FLATTENING_MODES.includes(mode) ? 'This mode builds new vertices, so the result is always 2D' : undefined}
+            >
+                <span>Flatten to 2D (drop altitude)</span>
+                <input
+                    type="checkbox"
+                    checked={params.flatten || FLATTENING_MODES.includes(mode)}
+                    disabled={FLATTENING_MODES.includes(mode)}
+                    onChange={(e) => update({ flatten: e.target.checked })}
+                />
+            </label>
+        </div>
+    );
+};
+
+export default ProcessingModeControl;
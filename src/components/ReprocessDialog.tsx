@@ -0,0 +1,44 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface ReprocessDialogProps {
+    layerName: string;
+    onKeepCopy: () => void;
+    onDiscard: () => void;
+    onCancel: () => void;
+}
+
+/**
+ * Asks what to do with hand edits before a layer is rebuilt from its source data.
+ */
+const ReprocessDialog: React.FC<ReprocessDialogProps> = ({ layerName, onKeepCopy, onDiscard, onCancel }) => (
+    <div className="modal-backdrop" onClick={onCancel}>
+        <div className="modal" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+                <span style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                    <AlertTriangle size={16} color="#f59e0b" /> Discard manual edits?
+                </span>
+                <button className="icon-btn" onClick={onCancel} title="Cancel">
+                    <X size={16} />
+                </button>
+            </div>
+
+            <div style={{ color: 'var(--text-secondary)', fontSize: '0.85rem', marginBottom: '16px' }}>
+                <strong style={{ color: 'var(--text-primary)' }}>{layerName}</strong> has been edited by hand.
+                Reprocessing rebuilds it from the original boundary and loses those edits.
+            </div>
+
+            <button className="btn btn-primary" onClick={onKeepCopy}>
+                Keep edited copy as a new layer
+            </button>
+            <button className="btn btn-secondary" style={{ color: '#ff7b72' }} onClick={onDiscard}>
+                Discard edits and reprocess
+            </button>
+            <button className="btn btn-secondary" onClick={onCancel}>
+                Cancel
+            </button>
+        </div>
+    </div>
+);
+
+export default ReprocessDialog;
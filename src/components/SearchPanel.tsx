@@ -0,0 +1,208 @@
+import React, { useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, Filter, Search } from 'lucide-react';
+import type { CitySearchResult } from '../types';
+import { hasBoundary } from '../utils/batchUtils';
+import { resultId, type GeocoderProvider } from '../utils/geocoderUtils';
+import { isCancelled } from '../utils/geometryQueue';
+import {
+    DEFAULT_SEARCH_FILTERS,
+    SEARCH_FEATURE_TYPES,
+    SEARCH_LANGUAGES,
+    SEARCH_PAGE_SIZE,
+    describeSearchError,
+    parseCountryCodes,
+    resultTypeLabel,
+    type SearchFilters
+} from '../utils/searchUtils';
+
+interface SearchPanelProps {
+    geocoder: GeocoderProvider;
+    onSelect: (result: CitySearchResult) => void;
+    onPreview: (result: CitySearchResult | null) => void;
+}
+
+/**
+ * Place search with country, type and language filters, paged results and a map
+ * preview of each result's extent on hover.
+ */
+const SearchPanel: React.FC<SearchPanelProps> = ({ geocoder, onSelect, onPreview }) => {
+    const [query, setQuery] = useState('');
+    const [searched, setSearched] = useState('');
+    const [results, setResults] = useState<CitySearchResult[]>([]);
+    const [hasMore, setHasMore] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [filtersOpen, setFiltersOpen] = useState(false);
+    const [filters, setFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const runSearch = async (text: string, activeFilters: SearchFilters, more: boolean) => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+
+        setLoading(true);
+        setError(null);
+        setNotice(null);
+        if (!more) onPreview(null);
+        try {
+            const page = await geocoder.search(text, {
+                limit: SEARCH_PAGE_SIZE,
+                countryCodes: parseCountryCodes(activeFilters.countries),
+                featureType: activeFilters.featureType || undefined,
+                language: activeFilters.language || undefined,
+                exclude: more ? results.map(resultId) : undefined,
+                signal: controller.signal
+            });
+            setResults(prev => {
+                if (!more) return page;
+                const shown = new Set(prev.map(resultId));
+                return [...prev, ...page.filter(result => !shown.has(resultId(result)))];
+            });
+            setHasMore(page.length >= SEARCH_PAGE_SIZE);
+            setSearched(text);
+        } catch (err) {
+            // A newer search replaced this one
+            if (isCancelled(err)) return;
+            console.error('Search failed:', err);
+            setError(describeSearchError(err, geocoder.name));
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setLoading(false);
+            }
+        }
+    };
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (query.trim()) runSearch(query.trim(), filters, false);
+    };
+
+    // Server-side filters apply to the search already shown; boundaries-only is applied here
+    const updateFilters = (changes: Partial<SearchFilters>) => {
+        const next = { ...filters, ...changes };
+        setFilters(next);
+        const serverSide = (['countries', 'featureType', 'language'] as const).some(key => key in changes && changes[key] !== filters[key]);
+        if (searched && serverSide) runSearch(searched, next, false);
+    };
+
+    const handleSelect = (result: CitySearchResult) => {
+        if (!hasBoundary(result)) {
+            setNotice(`${result.display_name.split(',')[0]} is a ${resultTypeLabel(result)} with no boundary polygon. Pick a result marked with an area, or turn on "Boundaries only".`);
+            return;
+        }
+        setNotice(null);
+        onPreview(null);
+        onSelect(result);
+    };
+
+    const visible = filters.boundariesOnly ? results.filter(hasBoundary) : results;
+    const hidden = results.length - visible.length;
+    const activeFilterCount = [filters.countries.trim(), filters.featureType, filters.language, filters.boundariesOnly]
+        .filter(Boolean).length;
+
+    return (
+        <>
+            <form className="search-box" onSubmit={handleSearch}>
+                <Search className="search-icon" size={18} />
+                <input
+                    type="text"
+                    placeholder="Search city (e.g. Somnath, Mumbai)"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                />
+            </form>
+
+            <button className="section-toggle" onClick={() => setFiltersOpen(!filtersOpen)}>
+                {filtersOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                <Filter size={14} />
+                Search filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+            </button>
+            {filtersOpen && (
+                <div className="panel search-filters">
+                    <label className="param-row">
+                        <span>Countries</span>
+                        <input
+                            className="plain-input"
+                            placeholder="e.g. in, np"
+                            defaultValue={filters.countries}
+                            onBlur={(e) => updateFilters({ countries: e.target.value })}
+                            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                            title="Two-letter ISO country codes, separated by commas"
+                        />
+                    </label>
+                    <label className="param-row">
+                        <span>Place type</span>
+                        <select
+                            className="select"
+                            value={filters.featureType}
+                            onChange={(e) => updateFilters({ featureType: e.target.value as SearchFilters['featureType'] })}
+                        >
+                            {SEARCH_FEATURE_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="param-row">
+                        <span>Language</span>
+                        <select
+                            className="select"
+                            value={filters.language}
+                            onChange={(e) => updateFilters({ language: e.target.value })}
+                        >
+                            {SEARCH_LANGUAGES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="param-row">
+                        <span>Boundaries only</span>
+                        <input
+                            type="checkbox"
+                            checked={filters.boundariesOnly}
+                            onChange={(e) => updateFilters({ boundariesOnly: e.target.checked })}
+                        />
+                    </label>
+                </div>
+            )}
+
+            <div className="results-list" onMouseLeave={() => onPreview(null)}>
+                {error && <div className="search-message error">{error}</div>}
+                {notice && <div className="search-message">{notice}</div>}
+                {visible.map((result) => (
+                    <div
+                        key={resultId(result)}
+                        className={`result-item${hasBoundary(result) ? '' : ' no-boundary'}`}
+                        onClick={() => handleSelect(result)}
+                        onMouseEnter={() => onPreview(result)}
+                    >
+                        <span className="name">{result.display_name}</span>
+                        <span className="meta">
+                            <span className="result-badge">{resultTypeLabel(result)}</span>
+                            {hasBoundary(result)
+                                ? <span className="result-badge area">Area</span>
+                                : <span className="result-badge point">No boundary</span>}
+                            OSM ID: {result.osm_id}
+                        </span>
+                    </div>
+                ))}
+                {loading && <div style={{ textAlign: 'center', padding: '20px' }}>Loading...</div>}
+                {!loading && hidden > 0 && (
+                    <div style={{ color: 'var(--text-secondary)', fontSize: '0.75rem', padding: '6px 10px' }}>
+                        {hidden} result{hidden === 1 ? '' : 's'} without a boundary hidden.
+                    </div>
+                )}
+                {!loading && hasMore && (
+                    <button className="link-btn" style={{ padding: '8px 10px' }} onClick={() => runSearch(searched, filters, true)}>
+                        More results
+                    </button>
+                )}
+                {results.length === 0 && !loading && !error && searched && (
+                    <div style={{ color: 'var(--text-secondary)', fontSize: '0.8rem', padding: '10px' }}>
+                        No results found{activeFilterCount > 0 ? '; try loosening the search filters' : ''}.
+                    </div>
+                )}
+            </div>
+        </>
+    );
+};
+
+export default SearchPanel;
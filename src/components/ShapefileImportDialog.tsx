@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { Filter, X } from 'lucide-react';
+import type { Feature } from '../types';
+import { filterByAttribute, getAttributeFields, type AttributeFilterOperator } from '../utils/shapefileUtils';
+
+interface ShapefileImportDialogProps {
+    fileName: string;
+    features: Feature[];
+    onImport: (features: Feature[]) => void;
+    onCancel: () => void;
+}
+
+const OPERATORS: { value: AttributeFilterOperator; label: string }[] = [
+    { value: 'equals', label: '=' },
+    { value: 'notEquals', label: '≠' },
+    { value: 'contains', label: 'contains' },
+    { value: 'greaterThan', label: '>' },
+    { value: 'lessThan', label: '<' },
+];
+
+const ShapefileImportDialog: React.FC<ShapefileImportDialogProps> = ({
+    fileName,
+    features,
+    onImport,
+    onCancel
+}) => {
+    const fields = useMemo(() => getAttributeFields(features), [features]);
+    const [field, setField] = useState('');
+    const [operator, setOperator] = useState<AttributeFilterOperator>('equals');
+    const [value, setValue] = useState('');
+
+    const matching = useMemo(
+        () => field && value.trim() ? filterByAttribute(features, { field, operator, value }) : features,
+        [features, field, operator, value]
+    );
+
+    return (
+        <div className="modal-backdrop" onClick={onCancel}>
+            <div className="modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <span>Import {fileName}</span>
+                    <button className="icon-btn" onClick={onCancel} title="Cancel">
+                        <X size={16} />
+                    </button>
+                </div>
+
+                <div style={{ color: 'var(--text-secondary)', fontSize: '0.8rem', marginBottom: '12px' }}>
+                    {features.length} records, {fields.length} attributes. Each record becomes its own layer.
+                </div>
+
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '0.75rem', textTransform: 'uppercase', color: 'var(--text-secondary)', marginBottom: '6px' }}>
+                    <Filter size={12} /> Filter records (optional)
+                </div>
+                <div style={{ display: 'flex', gap: '6px', marginBottom: '12px' }}>
+                    <select className="select" value={field} onChange={(e) => setField(e.target.value)}>
+                        <option value="">All records</option>
+                        {fields.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                    <select
+                        className="select"
+                        value={operator}
+                        onChange={(e) => setOperator(e.target.value as AttributeFilterOperator)}
+                        disabled={!field}
+                        style={{ flex: '0 0 90px' }}
+                    >
+                        {OPERATORS.map(op => <option key={op.value} value={op.value}>{op.label}</option>)}
+                    </select>
+                    <input
+                        className="plain-input"
+                        type="text"
+                        placeholder="Value"
+                        value={value}
+                        onChange={(e) => setValue(e.target.value)}
+                        disabled={!field}
+                    />
+                </div>
+
+                <button
+                    className="btn btn-primary"
+                    onClick={() => onImport(matching)}
+                    disabled={matching.length === 0}
+                >
+                    Import {matching.length} of {features.length} records
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ShapefileImportDialog;
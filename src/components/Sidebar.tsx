@@ -1,67 +1,103 @@
-import React, { useState, useRef } from 'react';
-import { Search, Download, Trash2, MapPin, Upload, Eye, EyeOff, Layers } from 'lucide-react';
-import type { CitySearchResult, EditMode, Layer } from '../types';
+import React, { useRef } from 'react';
+import { Download, Trash2, MapPin, Upload, ClipboardPaste, Save, FolderOpen, Undo2, Redo2, ListChecks } from 'lucide-react';
+import type { CitySearchResult, Feature, Layer, LayerProcessing, LayerStyle } from '../types';
+import LayerOperationsPanel from './LayerOperationsPanel';
+import SimplifyPanel from './SimplifyPanel';
+import ValidationPanel from './ValidationPanel';
+import StatsPanel from './StatsPanel';
+import AttributesPanel from './AttributesPanel';
+import StylePanel from './StylePanel';
+import LayerList from './LayerList';
+import SearchPanel from './SearchPanel';
+import ProcessingModeControl from './ProcessingModeControl';
+import type { BooleanOperation } from '../utils/booleanUtils';
+import { SUPPORTED_EXTENSIONS } from '../utils/importUtils';
+import type { GeocoderProvider } from '../utils/geocoderUtils';
+import { PROJECT_EXTENSION } from '../utils/projectUtils';
+import type { UnitSystem } from '../utils/unitUtils';
+import type { SimplifyAlgorithm, SimplifyResult, SimplifyTarget } from '../utils/simplifyUtils';
 
 interface SidebarProps {
     layers: Layer[];
     selectedLayerId: string | null;
     onSelectLayer: (layerId: string) => void;
+    geocoder: GeocoderProvider;
     onSearchResultSet: (result: CitySearchResult) => void;
-    onKMLUpload: (file: File) => void;
-    editMode: EditMode;
-    setEditMode: (mode: EditMode) => void;
-    onDownloadKml: (layerId?: string) => void;
-    onDownloadGeoJson: (layerId?: string) => void;
-    onLayerDelete: (layerId: string) => void;
+    onSearchPreview: (result: CitySearchResult | null) => void;
+    onFileImport: (file: File) => void;
+    onTextImport: (text: string) => void;
+    processing: LayerProcessing;
+    onProcessingChange: (processing: LayerProcessing) => void;
+    onDownloadKml: (layerIds?: string[]) => void;
+    onDownloadKmz: (layerIds?: string[]) => void;
+    onDownloadGeoJson: (layerIds?: string[]) => void;
+    onLayerUpdate: (layerId: string, feature: Feature) => void;
+    onSimplify: (feature: Feature, name: string, algorithm: SimplifyAlgorithm, target: SimplifyTarget, signal: AbortSignal) => Promise<SimplifyResult>;
+    onLayerPropertiesUpdate: (layerId: string, properties: Feature['properties']) => void;
+    onLayerStyleUpdate: (layerId: string, color: string, style: LayerStyle) => void;
+    onLayersDelete: (layerIds: string[]) => void;
+    onLayersChange: (change: (layers: Layer[]) => Layer[], coalesceKey?: string) => void;
     onLayerToggleVisibility: (layerId: string) => void;
+    onZoomToLayers: (layerIds: string[]) => void;
     onClear: () => void;
+    onOpenBatch: () => void;
+    onSaveProject: () => void;
+    onOpenProject: (file: File) => void;
+    onUndo: () => void;
+    onRedo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    onCreateOperationLayers: (features: Feature[], operation: BooleanOperation) => void;
+    units: UnitSystem;
+    onUnitsChange: (units: UnitSystem) => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
     layers,
     selectedLayerId,
     onSelectLayer,
+    geocoder,
     onSearchResultSet,
-    onKMLUpload,
-    editMode,
-    setEditMode,
+    onSearchPreview,
+    onFileImport,
+    onTextImport,
+    processing,
+    onProcessingChange,
     onDownloadKml,
+    onDownloadKmz,
     onDownloadGeoJson,
-    onLayerDelete,
+    onLayerUpdate,
+    onSimplify,
+    onLayerPropertiesUpdate,
+    onLayerStyleUpdate,
+    onLayersDelete,
+    onLayersChange,
     onLayerToggleVisibility,
-    onClear
+    onZoomToLayers,
+    onClear,
+    onOpenBatch,
+    onSaveProject,
+    onOpenProject,
+    onUndo,
+    onRedo,
+    canUndo,
+    canRedo,
+    onCreateOperationLayers,
+    units,
+    onUnitsChange
 }) => {
-    const [query, setQuery] = useState('');
-    const [results, setResults] = useState<CitySearchResult[]>([]);
-    const [loading, setLoading] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
-
-    const handleSearch = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!query.trim()) return;
-
-        setLoading(true);
-        try {
-            const response = await fetch(
-                `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(
-                    query
-                )}&polygon_geojson=1&addressdetails=1`
-            );
-            const data = await response.json();
-            setResults(data);
-        } catch (error) {
-            console.error('Search failed:', error);
-        } finally {
-            setLoading(false);
-        }
-    };
+    const projectInputRef = useRef<HTMLInputElement>(null);
 
     const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file && file.name.endsWith('.kml')) {
-            onKMLUpload(file);
+        const files = Array.from(e.target.files || []);
+        const unsupported = files.filter(file =>
+            !SUPPORTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))
+        );
+        if (files.length === 0 || unsupported.length > 0) {
+            alert(`Please upload a supported file (${SUPPORTED_EXTENSIONS.join(', ')})`);
         } else {
-            alert('Please upload a valid KML file (.kml extension)');
+            files.forEach(onFileImport);
         }
         // Reset input
         if (fileInputRef.current) {
@@ -69,156 +105,153 @@ const Sidebar: React.FC<SidebarProps> = ({
         }
     };
 
+    const handleProjectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) {
+            onOpenProject(file);
+        }
+        if (projectInputRef.current) {
+            projectInputRef.current.value = '';
+        }
+    };
+
+    const handlePasteClick = async () => {
+        try {
+            const text = await navigator.clipboard.readText();
+            if (text.trim()) {
+                onTextImport(text);
+            } else {
+                alert('Clipboard is empty');
+            }
+        } catch (error) {
+            console.error('Clipboard read failed:', error);
+            alert('Could not read the clipboard. Press Ctrl+V / Cmd+V on the map instead.');
+        }
+    };
+
     const selectedLayer = layers.find(l => l.id === selectedLayerId);
 
     return (
         <div className="sidebar">
-            <h1>KML Builder</h1>
+            <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between' }}>
+                <h1>KML Builder</h1>
+                <div style={{ display: 'flex', gap: '4px' }}>
+                    <button
+                        className="icon-btn"
+                        onClick={onUndo}
+                        disabled={!canUndo}
+                        title="Undo (Ctrl+Z)"
+                    >
+                        <Undo2 size={18} />
+                    </button>
+                    <button
+                        className="icon-btn"
+                        onClick={onRedo}
+                        disabled={!canRedo}
+                        title="Redo (Ctrl+Shift+Z)"
+                    >
+                        <Redo2 size={18} />
+                    </button>
+                </div>
+            </div>
 
             <div style={{ marginBottom: '20px' }}>
+                <div style={{ display: 'flex', gap: '10px' }}>
+                    <button 
+                        className="btn btn-secondary" 
+                        onClick={onSaveProject}
+                        disabled={layers.length === 0}
+                        title="Download layers, colours, visibility and mode as a project file"
+                    >
+                        <Save size={18} /> Save Project
+                    </button>
+                    <button 
+                        className="btn btn-secondary" 
+                        onClick={() => projectInputRef.current?.click()}
+                    >
+                        <FolderOpen size={18} /> Open Project
+                    </button>
+                </div>
+                <input
+                    ref={projectInputRef}
+                    type="file"
+                    accept={`${PROJECT_EXTENSION},.json`}
+                    onChange={handleProjectFile}
+                    style={{ display: 'none' }}
+                />
                 <button 
                     className="btn btn-secondary" 
                     onClick={() => fileInputRef.current?.click()}
                     style={{ width: '100%', marginBottom: '10px' }}
+                    title="KML, KMZ, GeoJSON, TopoJSON, WKT or WKB. Files can also be dropped on the map."
+                >
+                    <Upload size={18} /> Import File
+                </button>
+                <button 
+                    className="btn btn-secondary" 
+                    onClick={handlePasteClick}
+                    style={{ width: '100%', marginBottom: '10px' }}
+                    title="Import GeoJSON, KML or WKT text from the clipboard"
                 >
-                    <Upload size={18} /> Upload KML
+                    <ClipboardPaste size={18} /> Paste from Clipboard
+                </button>
+                <button 
+                    className="btn btn-secondary" 
+                    onClick={onOpenBatch}
+                    style={{ width: '100%', marginBottom: '10px' }}
+                    title="Look up boundaries for a list or CSV of place names"
+                >
+                    <ListChecks size={18} /> Batch Boundaries
                 </button>
                 <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".kml"
+                    accept={SUPPORTED_EXTENSIONS.join(',')}
+                    multiple
                     onChange={handleFileUpload}
                     style={{ display: 'none' }}
                 />
             </div>
 
-            <form className="search-box" onSubmit={handleSearch}>
-                <Search className="search-icon" size={18} />
-                <input
-                    type="text"
-                    placeholder="Search city (e.g. Somnath, Mumbai)"
-                    value={query}
-                    onChange={(e) => setQuery(e.target.value)}
+            <SearchPanel geocoder={geocoder} onSelect={onSearchResultSet} onPreview={onSearchPreview} />
+
+            {layers.length > 0 && (
+                <LayerList
+                    layers={layers}
+                    selectedLayerId={selectedLayerId}
+                    onSelectLayer={onSelectLayer}
+                    onLayersChange={onLayersChange}
+                    onLayersDelete={onLayersDelete}
+                    onLayerToggleVisibility={onLayerToggleVisibility}
+                    onZoomToLayers={onZoomToLayers}
+                    onDownloadKml={onDownloadKml}
+                    onDownloadKmz={onDownloadKmz}
+                    onDownloadGeoJson={onDownloadGeoJson}
                 />
-            </form>
+            )}
 
-            <div className="results-list">
-                {loading && <div style={{ textAlign: 'center', padding: '20px' }}>Loading...</div>}
-                {results.map((result) => (
-                    <div
-                        key={result.osm_id}
-                        className="result-item"
-                        onClick={() => onSearchResultSet(result)}
-                    >
-                        <span className="name">{result.display_name}</span>
-                        <span className="meta">OSM ID: {result.osm_id}</span>
-                    </div>
-                ))}
-                {results.length === 0 && !loading && query && (
-                    <div style={{ color: 'var(--text-secondary)', fontSize: '0.8rem', padding: '10px' }}>
-                        No results found.
-                    </div>
-                )}
-            </div>
+            {selectedLayer && (
+                <ValidationPanel layer={selectedLayer} onRepair={onLayerUpdate} />
+            )}
 
-            {layers.length > 0 && (
-                <div style={{ marginTop: '20px', marginBottom: '20px' }}>
-                    <div style={{ 
-                        color: 'var(--text-secondary)', 
-                        fontSize: '0.7rem', 
-                        textTransform: 'uppercase', 
-                        marginBottom: '8px',
-                        display: 'flex',
-                        alignItems: 'center',
-                        gap: '6px'
-                    }}>
-                        <Layers size={14} />
-                        Layers ({layers.length})
-                    </div>
-                    <div style={{ 
-                        maxHeight: '200px', 
-                        overflowY: 'auto',
-                        border: '1px solid var(--border-color)',
-                        borderRadius: '4px',
-                        padding: '4px'
-                    }}>
-                        {layers.map((layer) => (
-                            <div
-                                key={layer.id}
-                                onClick={() => onSelectLayer(layer.id)}
-                                style={{
-                                    padding: '8px',
-                                    marginBottom: '4px',
-                                    borderRadius: '4px',
-                                    cursor: 'pointer',
-                                    backgroundColor: selectedLayerId === layer.id 
-                                        ? 'var(--accent-color)' + '20' 
-                                        : 'transparent',
-                                    border: selectedLayerId === layer.id 
-                                        ? `1px solid ${layer.color}` 
-                                        : '1px solid transparent',
-                                    display: 'flex',
-                                    alignItems: 'center',
-                                    gap: '8px',
-                                    fontSize: '0.85rem'
-                                }}
-                            >
-                                <div
-                                    style={{
-                                        width: '12px',
-                                        height: '12px',
-                                        borderRadius: '2px',
-                                        backgroundColor: layer.color,
-                                        flexShrink: 0
-                                    }}
-                                />
-                                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                                    {layer.name}
-                                </span>
-                                <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
-                                    <button
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            onLayerToggleVisibility(layer.id);
-                                        }}
-                                        style={{
-                                            background: 'none',
-                                            border: 'none',
-                                            cursor: 'pointer',
-                                            padding: '2px',
-                                            display: 'flex',
-                                            alignItems: 'center',
-                                            color: layer.visible ? 'var(--text-primary)' : 'var(--text-secondary)'
-                                        }}
-                                        title={layer.visible ? 'Hide layer' : 'Show layer'}
-                                    >
-                                        {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
-                                    </button>
-                                    <button
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            onLayerDelete(layer.id);
-                                        }}
-                                        style={{
-                                            background: 'none',
-                                            border: 'none',
-                                            cursor: 'pointer',
-                                            padding: '2px',
-                                            display: 'flex',
-                                            alignItems: 'center',
-                                            color: '#ff7b72'
-                                        }}
-                                        title="Delete layer"
-                                    >
-                                        <Trash2 size={14} />
-                                    </button>
-                                </div>
-                            </div>
-                        ))}
-                    </div>
-                </div>
+            {selectedLayer && (
+                <StylePanel layer={selectedLayer} onChange={onLayerStyleUpdate} />
             )}
 
+            {selectedLayer && (
+                <AttributesPanel layer={selectedLayer} onChange={onLayerPropertiesUpdate} />
+            )}
+
+            {selectedLayer && (
+                <StatsPanel layer={selectedLayer} units={units} onUnitsChange={onUnitsChange} />
+            )}
+
+            {selectedLayer && (
+                <SimplifyPanel key={selectedLayer.id} layer={selectedLayer} onSimplify={onSimplify} onApply={onLayerUpdate} />
+            )}
+
+            <LayerOperationsPanel layers={layers} onCreateLayers={onCreateOperationLayers} />
+
             <div className="controls">
                 {selectedLayer && (
                     <div style={{ marginBottom: '15px' }}>
@@ -238,20 +271,11 @@ const Sidebar: React.FC<SidebarProps> = ({
                     </div>
                 )}
 
-                <div className="mode-toggle">
-                    <button
-                        className={`mode-btn ${editMode === 'accurate' ? 'active' : ''}`}
-                        onClick={() => setEditMode('accurate')}
-                    >
-                        Accurate
-                    </button>
-                    <button
-                        className={`mode-btn ${editMode === 'approximate' ? 'active' : ''}`}
-                        onClick={() => setEditMode('approximate')}
-                    >
-                        Approximate
-                    </button>
-                </div>
+                <ProcessingModeControl
+                    processing={processing}
+                    onChange={onProcessingChange}
+                    appliesTo={selectedLayer?.processing ? selectedLayer.name : null}
+                />
 
                 <button 
                     className="btn btn-primary" 
@@ -260,6 +284,13 @@ const Sidebar: React.FC<SidebarProps> = ({
                 >
                     <Download size={18} /> Export KML {layers.length > 1 ? '(All)' : ''}
                 </button>
+                <button 
+                    className="btn btn-secondary" 
+                    onClick={() => onDownloadKmz()}
+                    disabled={layers.length === 0}
+                >
+                    <Download size={18} /> Export KMZ {layers.length > 1 ? '(All)' : ''}
+                </button>
                 <button 
                     className="btn btn-secondary" 
                     onClick={() => onDownloadGeoJson()}
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Spline, ChevronDown, ChevronRight } from 'lucide-react';
+import type { Feature, Layer } from '../types';
+import { isCancelled } from '../utils/geometryQueue';
+import type { SimplifyAlgorithm, SimplifyResult, SimplifyTarget } from '../utils/simplifyUtils';
+
+type TargetKind = SimplifyTarget['kind'];
+
+interface SimplifySettings {
+    algorithm: SimplifyAlgorithm;
+    kind: TargetKind;
+    value: number;
+}
+
+interface SimplifyPanelProps {
+    layer: Layer;
+    /** Runs the simplification off the main thread; aborting `signal` cancels it. */
+    onSimplify: (
+        feature: Feature,
+        name: string,
+        algorithm: SimplifyAlgorithm,
+        target: SimplifyTarget,
+        signal: AbortSignal
+    ) => Promise<SimplifyResult>;
+    onApply: (layerId: string, feature: Feature) => void;
+}
+
+interface Preview {
+    settings: SimplifySettings;
+    feature: Feature;
+    result: SimplifyResult;
+}
+
+// Wait for typing to pause before starting a preview
+const PREVIEW_DELAY_MS = 300;
+
+const DEFAULT_VALUES: Record<TargetKind, number> = {
+    tolerance: 50,
+    vertices: 1000,
+    bytes: 500
+};
+
+const UNITS: Record<TargetKind, string> = {
+    tolerance: 'metres',
+    vertices: 'vertices',
+    bytes: 'KB'
+};
+
+const formatBytes = (bytes: number) =>
+    bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const toTarget = ({ kind, value }: SimplifySettings): SimplifyTarget => {
+    switch (kind) {
+        case 'tolerance':
+            return { kind, metres: value };
+        case 'vertices':
+            return { kind, count: Math.round(value) };
+        case 'bytes':
+            return { kind, bytes: value * 1024 };
+    }
+};
+
+/**
+ * Simplification for the selected layer with a live preview of vertex count,
+ * KML size and area change. Settings last applied are kept in the layer's properties.
+ */
+const SimplifyPanel: React.FC<SimplifyPanelProps> = ({ layer, onSimplify, onApply }) => {
+    const [open, setOpen] = useState(false);
+    const [settings, setSettings] = useState<SimplifySettings>(() => {
+        const last = layer.feature.properties.simplification;
+        return last
+            ? { algorithm: last.algorithm, kind: 'tolerance', value: last.tolerance_m }
+            : { algorithm: 'douglas-peucker', kind: 'tolerance', value: DEFAULT_VALUES.tolerance };
+    });
+    const [preview, setPreview] = useState<Preview | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Large boundaries take seconds to simplify, so previews run on the geometry queue.
+    // A change of settings cancels the preview in flight and starts a new one.
+    useEffect(() => {
+        if (!open || !(settings.value > 0)) return;
+        const controller = new AbortController();
+        const feature = layer.feature;
+        const timer = setTimeout(() => {
+            onSimplify(feature, layer.name, settings.algorithm, toTarget(settings), controller.signal)
+                .then(result => {
+                    setPreview({ settings, feature, result });
+                    setError(null);
+                })
+                .catch(err => {
+                    if (isCancelled(err)) return;
+                    console.error('Simplification failed:', err);
+                    setError(`Could not simplify ${layer.name}. ${err instanceof Error ? err.message : ''}`);
+                });
+        }, PREVIEW_DELAY_MS);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [open, layer.feature, layer.name, settings, onSimplify]);
+
+    const result = preview?.result;
+    // The preview on screen may be for earlier settings while the next one runs
+    const current = preview !== null && preview.settings === settings && preview.feature === layer.feature;
+
+    const handleApply = () => {
+        if (!preview || !current) return;
+        onApply(layer.id, {
+            ...layer.feature,
+            geometry: preview.result.geometry,
+            properties: {
+                ...layer.feature.properties,
+                simplification: {
+                    algorithm: preview.settings.algorithm,
+                    tolerance_m: Math.round(preview.result.toleranceMetres * 100) / 100
+                }
+            }
+        });
+    };
+
+    const unchanged = !result || result.after.vertices === result.before.vertices;
+
+    return (
+        <div style={{ marginBottom: '20px' }}>
+            <button
+                className="section-toggle"
+                onClick={() => setOpen(!open)}
+            >
+                {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                <Spline size={14} />
+                Simplify Layer
+            </button>
+
+            {open && (
+                <div className="panel">
+                    <select
+                        className="select"
+                        value={settings.algorithm}
+                        onChange={(e) => setSettings({ ...settings, algorithm: e.target.value as SimplifyAlgorithm })}
+                        style={{ width: '100%', marginBottom: '6px' }}
+                    >
+                        <option value="douglas-peucker">Douglas-Peucker</option>
+                        <option value="visvalingam">Visvalingam-Whyatt</option>
+                    </select>
+
+                    <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+                        <select
+                            className="select"
+                            value={settings.kind}
+                            onChange={(e) => {
+                                const kind = e.target.value as TargetKind;
+                                setSettings({ ...settings, kind, value: DEFAULT_VALUES[kind] });
+                            }}
+                            style={{ flex: 1 }}
+                        >
+                            <option value="tolerance">Tolerance</option>
+                            <option value="vertices">Target vertices</option>
+                            <option value="bytes">KML size budget</option>
+                        </select>
+                        <input
+                            className="plain-input"
+                            type="number"
+                            min={0}
+                            value={settings.value}
+                            onChange={(e) => setSettings({ ...settings, value: Number(e.target.value) })}
+                            style={{ width: '80px' }}
+                            title={UNITS[settings.kind]}
+                        />
+                        <span style={{ alignSelf: 'center', fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                            {UNITS[settings.kind]}
+                        </span>
+                    </div>
+
+                    {error && (
+                        <div style={{ fontSize: '0.75rem', color: '#ff7b72', marginBottom: '8px' }}>{error}</div>
+                    )}
+                    {result && (
+                        <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginBottom: '8px', lineHeight: 1.6, opacity: current ? 1 : 0.6 }}>
+                            <div>Vertices: {result.before.vertices.toLocaleString()} → {result.after.vertices.toLocaleString()}</div>
+                            <div>KML size: {formatBytes(result.before.bytes)} → {formatBytes(result.after.bytes)}</div>
+                            <div>Area change: {result.areaChangePercent >= 0 ? '+' : ''}{result.areaChangePercent.toFixed(2)}%</div>
+                            {settings.kind !== 'tolerance' && (
+                                <div>Tolerance used: {result.toleranceMetres.toFixed(1)} m</div>
+                            )}
+                        </div>
+                    )}
+
+                    <button
+                        className="btn btn-secondary"
+                        onClick={handleApply}
+                        disabled={unchanged || !current}
+                    >
+                        Apply to {layer.name.split(',')[0]}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SimplifyPanel;
@@ -0,0 +1,81 @@
+import React, { useMemo, useState } from 'react';
+import { ChartBar, ChevronDown, ChevronRight } from 'lucide-react';
+import type { Layer } from '../types';
+import { getLayerStats } from '../utils/statsUtils';
+import { UNIT_SYSTEMS, formatArea, formatDistance, type UnitSystem } from '../utils/unitUtils';
+
+interface StatsPanelProps {
+    layer: Layer;
+    units: UnitSystem;
+    onUnitsChange: (units: UnitSystem) => void;
+}
+
+const formatCoord = (value: number) => value.toFixed(5);
+
+/**
+ * Area, perimeter and shape figures for the selected layer, and how far processing
+ * moved it from the original boundary.
+ */
+const StatsPanel: React.FC<StatsPanelProps> = ({ layer, units, onUnitsChange }) => {
+    const [open, setOpen] = useState(false);
+
+    // The Hausdorff distance takes a moment on large boundaries, so only compute while open
+    const stats = useMemo(() => (open ? getLayerStats(layer.feature) : null), [open, layer.feature]);
+    const isLine = layer.feature.geometry.type === 'LineString' || layer.feature.geometry.type === 'MultiLineString';
+
+    // Label, value and an optional explanation
+    const rows: [string, string, string?][] = stats
+        ? [
+            ['Area', formatArea(stats.areaM2, units)],
+            [isLine ? 'Length' : 'Perimeter', formatDistance(stats.perimeterM, units)],
+            ['Vertices', stats.vertices.toLocaleString()],
+            ['Parts', stats.parts.toLocaleString()],
+            ['Holes', stats.holes.toLocaleString()],
+            ['Centroid', stats.centroid ? `${formatCoord(stats.centroid[1])}, ${formatCoord(stats.centroid[0])}` : '–'],
+            ['Bounds', stats.bbox
+                ? `${formatCoord(stats.bbox[1])}, ${formatCoord(stats.bbox[0])} → ${formatCoord(stats.bbox[3])}, ${formatCoord(stats.bbox[2])}`
+                : '–']
+        ]
+        : [];
+    if (stats?.original) {
+        const { areaM2, areaChangePercent, hausdorffM } = stats.original;
+        rows.push(
+            ['Original area', formatArea(areaM2, units)],
+            ['Area change', `${areaChangePercent >= 0 ? '+' : ''}${areaChangePercent.toFixed(2)}%`],
+            ['Max deviation', `≈ ${formatDistance(hausdorffM, units)}`, 'Hausdorff distance between this boundary and the original']
+        );
+    }
+
+    return (
+        <div style={{ marginBottom: '20px' }}>
+            <button className="section-toggle" onClick={() => setOpen(!open)}>
+                {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                <ChartBar size={14} />
+                Layer Statistics
+            </button>
+
+            {open && (
+                <div className="panel">
+                    <select
+                        className="select"
+                        value={units}
+                        onChange={(e) => onUnitsChange(e.target.value as UnitSystem)}
+                        style={{ width: '100%', marginBottom: '8px' }}
+                    >
+                        {UNIT_SYSTEMS.map(u => (
+                            <option key={u.value} value={u.value}>{u.label}</option>
+                        ))}
+                    </select>
+                    {rows.map(([label, value, title]) => (
+                        <div key={label} className="stat-row" title={title}>
+                            <span>{label}</span>
+                            <span>{value}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StatsPanel;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Palette } from 'lucide-react';
+import type { Layer, LayerStyle } from '../types';
+import { DEFAULT_LAYER_STYLE } from '../utils/styleUtils';
+
+interface StylePanelProps {
+    layer: Layer;
+    onChange: (layerId: string, color: string, style: LayerStyle) => void;
+}
+
+/**
+ * Outline, fill and label settings for the selected layer, used on the map and in
+ * KML and GeoJSON exports.
+ */
+const StylePanel: React.FC<StylePanelProps> = ({ layer, onChange }) => {
+    const [open, setOpen] = useState(false);
+    const style = { ...DEFAULT_LAYER_STYLE, ...layer.style };
+
+    const update = (changes: Partial<LayerStyle>, color = layer.color) => onChange(layer.id, color, { ...style, ...changes });
+
+    return (
+        <div style={{ marginBottom: '20px' }}>
+            <button className="section-toggle" onClick={() => setOpen(!open)}>
+                {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                <Palette size={14} />
+                Style
+            </button>
+
+            {open && (
+                <div className="panel">
+                    <label className="param-row">
+                        <span>Outline colour</span>
+                        <input type="color" value={layer.color} onChange={(e) => update({}, e.target.value)} />
+                    </label>
+                    <label className="param-row">
+                        <span>Outline width ({style.strokeWidth}px)</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={10}
+                            step={0.5}
+                            value={style.strokeWidth}
+                            onChange={(e) => update({ strokeWidth: Number(e.target.value) })}
+                        />
+                    </label>
+                    <label className="param-row">
+                        <span>Dashed outline</span>
+                        <input type="checkbox" checked={style.dashed} onChange={(e) => update({ dashed: e.target.checked })} />
+                    </label>
+                    <label className="param-row">
+                        <span>Fill matches outline</span>
+                        <input
+                            type="checkbox"
+                            checked={!style.fillColor}
+                            onChange={(e) => update({ fillColor: e.target.checked ? undefined : layer.color })}
+                        />
+                    </label>
+                    {style.fillColor && (
+                        <label className="param-row">
+                            <span>Fill colour</span>
+                            <input type="color" value={style.fillColor} onChange={(e) => update({ fillColor: e.target.value })} />
+                        </label>
+                    )}
+                    <label className="param-row">
+                        <span>Fill opacity ({Math.round(style.fillOpacity * 100)}%)</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={style.fillOpacity}
+                            onChange={(e) => update({ fillOpacity: Number(e.target.value) })}
+                        />
+                    </label>
+                    <label className="param-row">
+                        <span>Show label</span>
+                        <input type="checkbox" checked={style.showLabel === true} onChange={(e) => update({ showLabel: e.target.checked })} />
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StylePanel;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { AlertTriangle, Wrench } from 'lucide-react';
+import type { Feature, Layer } from '../types';
+import { ISSUE_LABELS, hasErrors, repairGeometry, validateFeature, type IssueKind } from '../utils/validationUtils';
+
+interface ValidationPanelProps {
+    layer: Layer;
+    onRepair: (layerId: string, feature: Feature) => void;
+}
+
+/**
+ * Marker for the layer list: "invalid" when the geometry has errors, "warnings" otherwise.
+ */
+export const ValidationBadge: React.FC<{ feature: Feature }> = ({ feature }) => {
+    const issues = validateFeature(feature);
+    if (issues.length === 0) return null;
+    const errors = hasErrors(issues);
+
+    return (
+        <span className={`layer-badge ${errors ? 'error' : ''}`} title={issues.map(issue => issue.message).join('\n')}>
+            {errors ? 'invalid' : 'warnings'}
+        </span>
+    );
+};
+
+/**
+ * Geometry problems in the selected layer, grouped by kind, with a one-click repair.
+ * Nothing is shown for a valid layer.
+ */
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ layer, onRepair }) => {
+    const issues = validateFeature(layer.feature);
+    if (issues.length === 0) return null;
+
+    const groups = new Map<IssueKind, typeof issues>();
+    issues.forEach(issue => groups.set(issue.kind, [...(groups.get(issue.kind) || []), issue]));
+    const errors = hasErrors(issues);
+
+    const handleRepair = () => {
+        try {
+            onRepair(layer.id, { ...layer.feature, geometry: repairGeometry(layer.feature.geometry) });
+        } catch (error) {
+            console.error('Repair failed:', error);
+            alert(`Could not repair ${layer.name}. ${error instanceof Error ? error.message : ''}`);
+        }
+    };
+
+    return (
+        <div style={{ marginBottom: '20px' }}>
+            <div className="section-toggle" style={{ cursor: 'default', color: errors ? '#ff7b72' : '#f59e0b' }}>
+                <AlertTriangle size={14} />
+                {errors ? 'Invalid geometry' : 'Geometry warnings'}
+            </div>
+            <div className="panel">
+                {[...groups].map(([kind, group]) => (
+                    <div
+                        key={kind}
+                        className={`issue-row ${group[0].severity}`}
+                        title={group.map(issue => issue.message).join('\n')}
+                    >
+                        <span>{ISSUE_LABELS[kind]}</span>
+                        <span>{group.length < group[0].total ? `${group.length} of ${group[0].total}` : group.length}</span>
+                    </div>
+                ))}
+                <button className="btn btn-secondary" onClick={handleRepair} style={{ marginTop: '8px' }}>
+                    <Wrench size={14} /> Repair
+                </button>
+                <div style={{ color: 'var(--text-secondary)', fontSize: '0.7rem', marginTop: '6px' }}>
+                    Fixes crossings, rewinds rings to the GeoJSON (RFC 7946) order and removes duplicate
+                    vertices.{errors && ' Layers with errors need confirmation before export.'}
+                    {groups.has('skippedCoordinate') && ' Unreadable coordinates were never imported and cannot be restored; check the source file.'}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Marker, Rectangle, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import type { Coordinate, Feature, Layer } from '../types';
+import {
+    deleteVertices,
+    getEditableRings,
+    insertVertex,
+    moveVertices,
+    parseVertexKey,
+    setVertex,
+    vertexKey,
+    type VertexRef
+} from '../utils/vertexUtils';
+
+// Above this many handles in view, editing asks the user to zoom in instead of freezing the map
+const MAX_VISIBLE_VERTICES = 800;
+
+const vertexIcon = L.divIcon({
+    className: 'vertex-handle',
+    iconSize: [12, 12],
+    iconAnchor: [6, 6]
+});
+
+const selectedVertexIcon = L.divIcon({
+    className: 'vertex-handle selected',
+    iconSize: [12, 12],
+    iconAnchor: [6, 6]
+});
+
+const holeVertexIcon = L.divIcon({
+    className: 'vertex-handle hole',
+    iconSize: [12, 12],
+    iconAnchor: [6, 6]
+});
+
+const midpointIcon = L.divIcon({
+    className: 'midpoint-handle',
+    iconSize: [10, 10],
+    iconAnchor: [5, 5]
+});
+
+interface VertexEditorProps {
+    layer: Layer;
+    onUpdate: (layerId: string, feature: Feature) => void;
+}
+
+/**
+ * Vertex handles for the selected layer: drag to move (moves the whole selection
+ * when the dragged vertex is selected), click a midpoint to insert, Alt+click or
+ * Delete to remove, Shift+click or Shift+drag a box to multi-select.
+ * Only vertices inside the current viewport get handles.
+ */
+const VertexEditor: React.FC<VertexEditorProps> = ({ layer, onUpdate }) => {
+    const map = useMap();
+    const [bounds, setBounds] = useState(() => map.getBounds());
+    const [selection, setSelection] = useState<Set<string>>(new Set());
+    const [box, setBox] = useState<L.LatLngBounds | null>(null);
+    const boxStart = useRef<L.LatLng | null>(null);
+
+    const feature = layer.feature;
+    const rings = useMemo(() => getEditableRings(feature.geometry), [feature.geometry]);
+
+    const updateGeometry = (geometry: Feature['geometry']) => {
+        onUpdate(layer.id, { ...feature, geometry });
+    };
+
+    // The new vertex goes after `ref`, so selected vertices further along that ring move up one
+    const addVertex = (ref: VertexRef, coord: Coordinate) => {
+        updateGeometry(insertVertex(feature.geometry, ref, coord));
+        setSelection(new Set([...selection].map(key => {
+            const selected = parseVertexKey(key);
+            const shifted = selected.part === ref.part && selected.ring === ref.ring && selected.index > ref.index;
+            return shifted ? vertexKey({ ...selected, index: selected.index + 1 }) : key;
+        })));
+    };
+
+    const removeVertices = (refs: VertexRef[]) => {
+        if (refs.length === 0) return;
+        const result = deleteVertices(feature.geometry, refs);
+        if (result.kept > 0) {
+            alert(`${result.kept} vertices were kept: a ring needs at least 3 points.`);
+        }
+        updateGeometry(result.geometry);
+        setSelection(new Set());
+    };
+
+    // Leaflet uses Shift+drag for box zoom; box selection takes it over while editing
+    useEffect(() => {
+        map.boxZoom.disable();
+        return () => {
+            map.boxZoom.enable();
+        };
+    }, [map]);
+
+    useMapEvents({
+        moveend: () => setBounds(map.getBounds()),
+        zoomend: () => setBounds(map.getBounds()),
+        mousedown: (e) => {
+            if (!e.originalEvent.shiftKey) return;
+            map.dragging.disable();
+            boxStart.current = e.latlng;
+            setBox(L.latLngBounds(e.latlng, e.latlng));
+        },
+        mousemove: (e) => {
+            if (boxStart.current) setBox(L.latLngBounds(boxStart.current, e.latlng));
+        },
+        mouseup: (e) => {
+            if (!boxStart.current) return;
+            const area = L.latLngBounds(boxStart.current, e.latlng);
+            boxStart.current = null;
+            setBox(null);
+            map.dragging.enable();
+
+            const picked = new Set(selection);
+            rings.forEach(ring => ring.coords.forEach((c, index) => {
+                if (area.contains([c[1], c[0]])) picked.add(vertexKey({ part: ring.part, ring: ring.ring, index }));
+            }));
+            setSelection(picked);
+        },
+        click: (e) => {
+            if (!e.originalEvent.shiftKey) setSelection(new Set());
+        }
+    });
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+            if ((e.key === 'Delete' || e.key === 'Backspace') && selection.size > 0) {
+                e.preventDefault();
+                removeVertices([...selection].map(parseVertexKey));
+            } else if (e.key === 'Escape') {
+                setSelection(new Set());
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    });
+
+    const visible = rings.flatMap(ring => ring.coords
+        .map((c, index) => ({ ref: { part: ring.part, ring: ring.ring, index }, coord: c }))
+        .filter(({ coord }) => bounds.contains([coord[1], coord[0]]))
+    );
+
+    if (visible.length > MAX_VISIBLE_VERTICES) {
+        return (
+            <div className="map-notice">
+                {visible.length.toLocaleString()} vertices in view. Zoom in to edit them.
+            </div>
+        );
+    }
+
+    // Midpoint handles for edges whose both ends are in view
+    const midpoints = rings.flatMap(ring => ring.coords.flatMap((a, index) => {
+        const b = ring.coords[(index + 1) % ring.coords.length];
+        if (!bounds.contains([a[1], a[0]]) || !bounds.contains([b[1], b[0]])) return [];
+        return [{
+            ref: { part: ring.part, ring: ring.ring, index },
+            coord: [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2] as Coordinate
+        }];
+    }));
+
+    const handleVertexDragEnd = (ref: VertexRef, original: Coordinate, latLng: L.LatLng) => {
+        const key = vertexKey(ref);
+        if (selection.has(key) && selection.size > 1) {
+            const delta: Coordinate = [latLng.lng - original[0], latLng.lat - original[1]];
+            updateGeometry(moveVertices(feature.geometry, [...selection].map(parseVertexKey), delta));
+        } else {
+            updateGeometry(setVertex(feature.geometry, ref, [latLng.lng, latLng.lat]));
+        }
+    };
+
+    const handleVertexClick = (ref: VertexRef, e: L.LeafletMouseEvent) => {
+        L.DomEvent.stopPropagation(e);
+        const key = vertexKey(ref);
+        if (e.originalEvent.altKey) {
+            removeVertices([ref]);
+        } else if (e.originalEvent.shiftKey) {
+            const next = new Set(selection);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            setSelection(next);
+        } else {
+            setSelection(new Set([key]));
+        }
+    };
+
+    return (
+        <>
+            {midpoints.map(({ ref, coord }) => (
+                <Marker
+                    key={`mid-${vertexKey(ref)}`}
+                    position={[coord[1], coord[0]]}
+                    icon={midpointIcon}
+                    draggable={true}
+                    eventHandlers={{
+                        click: (e) => {
+                            L.DomEvent.stopPropagation(e);
+                            addVertex(ref, coord);
+                        },
+                        dragend: (e) => {
+                            const latLng = (e.target as L.Marker).getLatLng();
+                            addVertex(ref, [latLng.lng, latLng.lat]);
+                        }
+                    }}
+                />
+            ))}
+
+            {visible.map(({ ref, coord }) => {
+                const key = vertexKey(ref);
+                return (
+                    <Marker
+                        key={key}
+                        position={[coord[1], coord[0]]}
+                        draggable={true}
+                        icon={selection.has(key) ? selectedVertexIcon : ref.ring > 0 ? holeVertexIcon : vertexIcon}
+                        eventHandlers={{
+                            click: (e) => handleVertexClick(ref, e),
+                            dragend: (e) => handleVertexDragEnd(ref, coord, (e.target as L.Marker).getLatLng())
+                        }}
+                    />
+                );
+            })}
+
+            {box && <Rectangle bounds={box} pathOptions={{ color: '#58a6ff', weight: 1, dashArray: '4', fillOpacity: 0.1 }} />}
+        </>
+    );
+};
+
+export default VertexEditor;
@@ -0,0 +1,72 @@
+/**
+ * Public entry point of the geometry and format library. Everything exported here
+ * runs without a DOM, in Node as well as in browsers and workers, and is checked
+ * against that by tsconfig.lib.json.
+ */
+export type * from '../types';
+
+export {
+  DEFAULT_PROCESSING_PARAMS,
+  EDIT_MODES,
+  convertTo2D,
+  ensureSinglePolygon,
+  fromKMLColor,
+  parseKML,
+  processGeometry,
+  toKML,
+  toKMLColor,
+  toKMLDocument,
+  withProcessingProperties,
+  type KMLDocumentOptions
+} from '../utils/geometryUtils';
+export { bridgeMultiPolygon } from '../utils/bridgeUtils';
+export { parseXML, type XmlElement } from '../utils/xmlUtils';
+export { parseWKB, parseWKT } from '../utils/wktUtils';
+export { readKMZ, toKMZ, zipFiles, type KMZContents } from '../utils/kmzUtils';
+export {
+  SUPPORTED_EXTENSIONS,
+  detectTextFormat,
+  importFile,
+  normalizeGeoJSON,
+  parseImportText,
+  type ImportFormat,
+  type ImportResult
+} from '../utils/importUtils';
+export {
+  createFileProvider,
+  createGeocoder,
+  createNominatimProvider,
+  createPhotonProvider,
+  resultId,
+  type FixtureSource,
+  type GeocodeOptions,
+  type GeocoderConfig,
+  type GeocoderKind,
+  type GeocoderProvider,
+  type SearchFeatureType
+} from '../utils/geocoderUtils';
+export { SEARCH_FEATURE_TYPES, parseCountryCodes, resultBounds, resultTypeLabel } from '../utils/searchUtils';
+export {
+  featuresToLayers,
+  findPlace,
+  outputFormatFor,
+  placeToLayer,
+  processFeatures,
+  searchPlace,
+  toExportFeature,
+  writeLayers,
+  type OutputFormat
+} from '../utils/convertUtils';
+export {
+  batchLayers,
+  createBatchItems,
+  hasBoundary,
+  matchResults,
+  parseBatchInput,
+  runBatch,
+  type BatchEntry,
+  type BatchItem,
+  type BatchStatus
+} from '../utils/batchUtils';
+export { repairGeometry, validateFeature, validateGeometry, type ValidationIssue } from '../utils/validationUtils';
+export { simplifyGeometry, type SimplifyAlgorithm } from '../utils/simplifyUtils';
@@ -1,10 +1,50 @@
-export type Coordinate = [number, number];
+/** Longitude, latitude and, for 3D data, altitude in metres. */
+export type Coordinate = [number, number] | [number, number, number];
 
-export interface Geometry {
-  type: 'Polygon' | 'MultiPolygon';
-  coordinates: Coordinate[][] | Coordinate[][][];
+export interface PointGeometry {
+  type: 'Point';
+  coordinates: Coordinate;
 }
 
+export interface MultiPointGeometry {
+  type: 'MultiPoint';
+  coordinates: Coordinate[];
+}
+
+export interface LineStringGeometry {
+  type: 'LineString';
+  coordinates: Coordinate[];
+}
+
+export interface MultiLineStringGeometry {
+  type: 'MultiLineString';
+  coordinates: Coordinate[][];
+}
+
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: Coordinate[][];
+}
+
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: Coordinate[][][];
+}
+
+export interface GeometryCollection {
+  type: 'GeometryCollection';
+  geometries: Geometry[];
+}
+
+export type Geometry =
+  | PointGeometry
+  | MultiPointGeometry
+  | LineStringGeometry
+  | MultiLineStringGeometry
+  | PolygonGeometry
+  | MultiPolygonGeometry
+  | GeometryCollection;
+
 export interface Feature {
   type: 'Feature';
   properties: Record<string, any>;
@@ -17,21 +57,84 @@ export interface FeatureCollection {
 }
 
 export interface CitySearchResult {
+  /** Nominatim's own id, used to page past results already shown. */
+  place_id?: number;
   display_name: string;
   lat: string;
   lon: string;
   osm_id: string;
+  /** Nominatim category and type, e.g. boundary/administrative or place/city. */
+  class?: string;
+  type?: string;
+  /** What the place counts as in an address, e.g. city or state. */
+  addresstype?: string;
+  /** South, north, west and east edges, as Nominatim returns them. */
+  boundingbox?: [string, string, string, string];
+  importance?: number;
+  address?: Record<string, string>;
   geojson?: any;
 }
 
-export type EditMode = 'accurate' | 'approximate';
+export type EditMode = 'accurate' | 'approximate' | 'multipolygon' | 'convexHull' | 'concaveHull' | 'largestPart';
+
+export interface ProcessingParams {
+  /** Gap-filling buffer for approximate mode, in km. */
+  bufferKm: number;
+  /** Parts with a smaller area (km²) are dropped; the largest part is always kept. */
+  minIslandAreaKm2: number;
+  /** Holes with a smaller area (km²) are filled in. */
+  fillHolesBelowKm2: number;
+  /** Longest edge (km) the concave hull may span. */
+  concaveAlphaKm: number;
+  /** Drop altitude even in modes that could keep it. */
+  flatten: boolean;
+}
+
+/** KML geometry settings kept from import so an export puts 3D data back where it was. */
+export interface KMLGeometryOptions {
+  altitudeMode?: string;
+  extrude?: boolean;
+  tessellate?: boolean;
+}
+
+export type DrawTool = 'polygon' | 'rectangle' | 'circle' | 'polyline';
+
+export type MeasureMode = 'distance' | 'area';
+
+export interface LayerProcessing {
+  mode: EditMode;
+  params: ProcessingParams;
+}
+
+export interface LayerStyle {
+  /** Outline width in pixels. */
+  strokeWidth: number;
+  /** Fill colour; the layer colour when unset. */
+  fillColor?: string;
+  fillOpacity: number;
+  dashed: boolean;
+  /**
+   * Shows the layer name on the map. In KML, false hides the label; unset leaves it
+   * to the viewer, which shows it.
+   */
+  showLabel?: boolean;
+  /** KML IconStyle image, usually a path inside the KMZ it was imported from. */
+  iconHref?: string;
+}
 
 export interface Layer {
   id: string;
   name: string;
   feature: Feature;
+  /** Outline colour, also used for the layer's swatch. */
   color: string;
+  /** Defaults apply when unset; see `getLayerStyle`. */
+  style?: LayerStyle;
   visible: boolean;
   editable: boolean;
-  source: 'search' | 'upload';
+  source: 'search' | 'upload' | 'shapefile' | 'drawn' | 'operation';
+  /** How the geometry was derived from `feature.properties.originalGeoJson`, for layers that have one. */
+  processing?: LayerProcessing;
+  /** Set once the geometry is changed by hand, so reprocessing knows it would discard edits. */
+  edited?: boolean;
 }
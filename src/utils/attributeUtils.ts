@@ -0,0 +1,58 @@
+import type { Feature } from '../types';
+
+export type AttributeType = 'string' | 'number' | 'boolean';
+
+export const ATTRIBUTE_TYPES: { value: AttributeType; label: string }[] = [
+  { value: 'string', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Yes/No' }
+];
+
+// App state kept in properties; never exported as attributes
+export const INTERNAL_PROPERTIES = new Set(['originalGeoJson', 'kmlGeometry', 'folderPath', 'skippedCoordinates']);
+
+// Have their own KML elements and their own fields in the editor
+export const FEATURE_TEXT_PROPERTIES = new Set(['name', 'description']);
+
+/**
+ * Properties as they should appear in an exported file, without app state.
+ */
+export const exportProperties = (properties: Feature['properties']): Feature['properties'] =>
+  Object.fromEntries(Object.entries(properties || {}).filter(([key]) => !INTERNAL_PROPERTIES.has(key)));
+
+/**
+ * The user-facing attributes of a feature: everything except app state, name and description.
+ */
+export const getAttributes = (properties: Feature['properties']): [string, unknown][] =>
+  Object.entries(exportProperties(properties)).filter(([key]) => !FEATURE_TEXT_PROPERTIES.has(key));
+
+/** The editable type of a value, or null for objects and arrays, which are shown read-only. */
+export const attributeType = (value: unknown): AttributeType | null => {
+  switch (typeof value) {
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'object':
+      return value === null ? 'string' : null;
+    default:
+      return 'string';
+  }
+};
+
+/**
+ * Converts a value to another attribute type, e.g. when the user changes a field's type.
+ * Text that is not a number becomes 0; "true", "yes" and "1" become true.
+ */
+export const coerceAttribute = (value: unknown, type: AttributeType): string | number | boolean => {
+  switch (type) {
+    case 'number': {
+      const number = typeof value === 'boolean' ? Number(value) : parseFloat(String(value ?? ''));
+      return Number.isFinite(number) ? number : 0;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : ['true', 'yes', '1'].includes(String(value).trim().toLowerCase());
+    case 'string':
+      return value === null || value === undefined ? '' : String(value);
+  }
+};
@@ -0,0 +1,280 @@
+import type { CitySearchResult, Feature, Geometry, Layer, LayerProcessing } from '../types';
+import type { GeocoderProvider } from './geocoderUtils';
+import { withProcessingProperties } from './geometryUtils';
+
+export interface BatchEntry {
+  name: string;
+  country?: string;
+  state?: string;
+}
+
+export type BatchStatus = 'pending' | 'matched' | 'ambiguous' | 'notFound' | 'error';
+
+export interface BatchItem {
+  entry: BatchEntry;
+  status: BatchStatus;
+  /** Geocoder candidates, best match first. */
+  results: CitySearchResult[];
+  /** Index into `results` of the match to use, or null to leave the place out. */
+  chosen: number | null;
+  error?: string;
+}
+
+export const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+  pending: 'Pending',
+  matched: 'Matched',
+  ambiguous: 'Check',
+  notFound: 'Not found',
+  error: 'Failed'
+};
+
+// CSV header names recognised for each column, lower-case
+const NAME_COLUMNS = ['name', 'place', 'city', 'query', 'location'];
+const COUNTRY_COLUMNS = ['country', 'country_code'];
+const STATE_COLUMNS = ['state', 'province', 'region', 'county'];
+
+// Candidates fetched per place; enough to offer alternatives in the review table
+const MAX_RESULTS = 5;
+
+// Geocoder importance (0-1) within which two boundaries are both plausible; a boundary
+// this much more important than the one chosen also makes the match worth a look
+const AMBIGUITY_MARGIN = 0.1;
+
+// Small enough that together they never outweigh the ambiguity margin
+const NAME_BONUS = 0.04;
+const ADMINISTRATIVE_BONUS = 0.04;
+const PLACE_BONUS = 0.02;
+
+// Waits before retrying a failed lookup; rate-limit errors usually clear within these
+const RETRY_DELAYS_MS = [2000, 5000, 15000];
+
+// Splits one CSV line, honouring double quotes ("" is a literal quote); fields can't span lines
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells.map(c => c.trim());
+};
+
+/**
+ * Reads a pasted list (one place per line) or a CSV with a header row naming a
+ * name/place/city column and optional country and state columns. Without a
+ * recognised header every line is taken as a place, commas included.
+ */
+export const parseBatchInput = (text: string): BatchEntry[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return [];
+
+  const delimiter = ['\t', ';', ','].find(d => lines[0].includes(d));
+  if (delimiter) {
+    const header = splitCsvLine(lines[0], delimiter).map(h => h.toLowerCase());
+    const column = (names: string[]) => header.findIndex(h => names.includes(h));
+    const nameColumn = column(NAME_COLUMNS);
+    if (nameColumn !== -1) {
+      const countryColumn = column(COUNTRY_COLUMNS);
+      const stateColumn = column(STATE_COLUMNS);
+      return lines.slice(1)
+        .map(line => splitCsvLine(line, delimiter))
+        .filter(cells => cells[nameColumn])
+        .map(cells => ({
+          name: cells[nameColumn],
+          ...(cells[countryColumn] ? { country: cells[countryColumn] } : {}),
+          ...(cells[stateColumn] ? { state: cells[stateColumn] } : {})
+        }));
+    }
+  }
+
+  return lines.map(line => ({ name: line.trim() }));
+};
+
+/**
+ * The free-text query for an entry: "name, state, country".
+ */
+export const batchQuery = (entry: BatchEntry): string =>
+  [entry.name, entry.state, entry.country].filter(Boolean).join(', ');
+
+export const hasBoundary = (result: CitySearchResult): boolean =>
+  result.geojson?.type === 'Polygon' || result.geojson?.type === 'MultiPolygon';
+
+// How many of the entry's state and country the candidate agrees with
+const matchedQualifiers = (result: CitySearchResult, entry: BatchEntry) => {
+  const text = result.display_name.toLowerCase();
+  return [entry.state, entry.country].filter(part => {
+    if (!part) return false;
+    const lower = part.toLowerCase();
+    return text.includes(lower) || result.address?.country_code === lower;
+  }).length;
+};
+
+// True when the candidate's own name (before the first comma) is the one asked for
+const nameMatches = (result: CitySearchResult, entry: BatchEntry) =>
+  result.display_name.split(',')[0].trim().toLowerCase() === entry.name.split(',')[0].trim().toLowerCase();
+
+/**
+ * Ranks a candidate: a boundary polygon outranks anything without one, and a match
+ * for each state or country given outranks a miss. Within that, the geocoder's own
+ * importance decides, with an exact name and the kind of place as small tie-breakers.
+ */
+export const scoreResult = (result: CitySearchResult, entry: BatchEntry): number => {
+  let score = (hasBoundary(result) ? 100 : 0) + matchedQualifiers(result, entry) * 10 + (result.importance ?? 0);
+  if (result.class === 'boundary' && result.type === 'administrative') score += ADMINISTRATIVE_BONUS;
+  else if (result.class === 'place') score += PLACE_BONUS;
+  if (nameMatches(result, entry)) score += NAME_BONUS;
+  return score;
+};
+
+/**
+ * Orders the candidates best first and decides whether the best one can be used
+ * without review: it must have a boundary, and no runner-up with one may score close
+ * to it. Nor may another boundary in the same state and country be much more
+ * important, or have exactly the name asked for when the best doesn't.
+ */
+export const matchResults = (entry: BatchEntry, results: CitySearchResult[]): BatchItem => {
+  if (results.length === 0) return { entry, status: 'notFound', results: [], chosen: null };
+
+  const ranked = results
+    .map(result => ({ result, score: scoreResult(result, entry) }))
+    .sort((a, b) => b.score - a.score);
+  const [best, second] = ranked;
+  const close = second && hasBoundary(second.result) && best.score - second.score < AMBIGUITY_MARGIN;
+  const importance = best.result.importance ?? 0;
+  const qualifiers = matchedQualifiers(best.result, entry);
+  const outranked = ranked.some(({ result }) => hasBoundary(result) && matchedQualifiers(result, entry) === qualifiers && (
+    (result.importance ?? 0) - importance > AMBIGUITY_MARGIN ||
+    (nameMatches(result, entry) && !nameMatches(best.result, entry))
+  ));
+
+  return {
+    entry,
+    status: hasBoundary(best.result) && !close && !outranked ? 'matched' : 'ambiguous',
+    results: ranked.map(r => r.result),
+    chosen: 0
+  };
+};
+
+export const createBatchItems = (entries: BatchEntry[]): BatchItem[] =>
+  entries.map(entry => ({ entry, status: 'pending', results: [], chosen: null }));
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Batch paused', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  if (signal?.aborted) abort();
+  else signal?.addEventListener('abort', abort, { once: true });
+});
+
+/**
+ * Looks up one entry, retrying failures with backoff before giving up on it.
+ * Rejects with an AbortError when `signal` aborts.
+ */
+export const resolveBatchEntry = async (
+  entry: BatchEntry,
+  geocoder: GeocoderProvider,
+  signal?: AbortSignal
+): Promise<BatchItem> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const results = await geocoder.search(batchQuery(entry), { limit: MAX_RESULTS, signal });
+      return matchResults(entry, results);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      if (attempt >= RETRY_DELAYS_MS.length) {
+        return { entry, status: 'error', results: [], chosen: null, error: error instanceof Error ? error.message : String(error) };
+      }
+      console.warn(`Lookup for "${entry.name}" failed, retrying:`, error);
+      await delay(RETRY_DELAYS_MS[attempt], signal);
+    }
+  }
+};
+
+/**
+ * Resolves every pending item in order, one request at a time; the geocoder's own
+ * throttle keeps requests within its rate limit. Items are reported as they finish so
+ * progress can be saved, and aborting leaves the rest pending for a later resume.
+ */
+export const runBatch = async (
+  items: BatchItem[],
+  geocoder: GeocoderProvider,
+  onItem: (index: number, item: BatchItem) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  for (let i = 0; i < items.length; i++) {
+    if (items[i].status !== 'pending') continue;
+    signal?.throwIfAborted();
+    onItem(i, await resolveBatchEntry(items[i].entry, geocoder, signal));
+  }
+};
+
+/**
+ * The chosen match of every item that has one with a boundary, ready for processing.
+ */
+export const chosenResults = (items: BatchItem[]): CitySearchResult[] =>
+  items
+    .map(item => (item.chosen !== null ? item.results[item.chosen] : undefined))
+    .filter((result): result is CitySearchResult => result !== undefined && hasBoundary(result));
+
+/**
+ * Turns processed batch results into layers for export.
+ */
+export const batchLayers = (results: CitySearchResult[], geometries: Geometry[], { mode, params }: LayerProcessing): Layer[] =>
+  results.map((result, index) => {
+    const feature: Feature = {
+      type: 'Feature',
+      properties: withProcessingProperties({ name: result.display_name, osm_id: result.osm_id }, mode, params),
+      geometry: geometries[index]
+    };
+    return {
+      id: `batch-${index}`,
+      name: result.display_name,
+      feature,
+      color: '#3b82f6',
+      visible: true,
+      editable: false,
+      source: 'search',
+      processing: { mode, params }
+    };
+  });
+
+/**
+ * File names for per-place files: the first part of each name, made safe for file
+ * systems and numbered where two places would share one.
+ */
+export const uniqueFileNames = (names: string[], extension: string): string[] => {
+  // Every name handed out, so a numbered name can't clash with a place that is already called that
+  const used = new Set<string>();
+  return names.map(name => {
+    const base = (name.split(',')[0] || 'place').trim().replace(/[\\/:*?"<>|]+/g, '_') || 'place';
+    let fileName = `${base}${extension}`;
+    for (let count = 2; used.has(fileName.toLowerCase()); count++) {
+      fileName = `${base} (${count})${extension}`;
+    }
+    used.add(fileName.toLowerCase());
+    return fileName;
+  });
+};
@@ -0,0 +1,156 @@
+import * as turf from '@turf/turf';
+import type { Feature as GeoJSONFeature, MultiPolygon, Polygon } from 'geojson';
+import type { Coordinate, Feature, Geometry, Layer } from '../types';
+
+export type BooleanOperation = 'union' | 'intersection' | 'difference' | 'symmetricDifference' | 'dissolve';
+
+export const BOOLEAN_OPERATIONS: { value: BooleanOperation; label: string; description: string }[] = [
+  { value: 'union', label: 'Union', description: 'Everything covered by any layer' },
+  { value: 'intersection', label: 'Intersection', description: 'Only the area shared by all layers' },
+  { value: 'difference', label: 'Difference', description: 'First layer minus all the others' },
+  { value: 'symmetricDifference', label: 'Symmetric difference', description: 'Area covered by an odd number of layers' },
+  { value: 'dissolve', label: 'Dissolve by property', description: 'Union of layers sharing a property value' },
+];
+
+// Results smaller than this (m²) are slivers from floating-point noise, not real shapes
+export const MIN_RESULT_AREA_M2 = 1;
+
+type PolygonFeature = GeoJSONFeature<Polygon | MultiPolygon>;
+
+/**
+ * Collects the polygonal parts of a layer (ignoring points and lines) as one turf feature.
+ */
+const toPolygonFeature = (layer: Layer): PolygonFeature | null => {
+  const polygons: Coordinate[][][] = [];
+  turf.flattenEach(layer.feature as unknown as GeoJSONFeature, (part) => {
+    if (part.geometry?.type === 'Polygon' && part.geometry.coordinates[0]?.length >= 4) {
+      polygons.push(part.geometry.coordinates as Coordinate[][]);
+    }
+  });
+
+  if (polygons.length === 0) return null;
+  return polygons.length === 1 ? turf.polygon(polygons[0]) : turf.multiPolygon(polygons);
+};
+
+const unionAll = (features: PolygonFeature[]): PolygonFeature | null =>
+  features.length === 1 ? features[0] : turf.union(turf.featureCollection(features));
+
+const symmetricDifference = (a: PolygonFeature | null, b: PolygonFeature): PolygonFeature | null => {
+  if (!a) return b;
+  const aMinusB = turf.difference(turf.featureCollection([a, b]));
+  const bMinusA = turf.difference(turf.featureCollection([b, a]));
+  if (!aMinusB) return bMinusA;
+  if (!bMinusA) return aMinusB;
+  return turf.union(turf.featureCollection([aMinusB, bMinusA]));
+};
+
+const provenance = (operation: BooleanOperation, layers: Layer[]) => ({
+  operation,
+  sourceLayerIds: layers.map(l => l.id),
+  sourceLayerNames: layers.map(l => l.name),
+});
+
+const checkResult = (result: PolygonFeature | null, what: string): Geometry => {
+  if (!result || !result.geometry) {
+    throw new Error(`${what} is empty: the layers do not overlap in the required way.`);
+  }
+  const area = turf.area(result);
+  if (area < MIN_RESULT_AREA_M2) {
+    throw new Error(`${what} is degenerate (area ${area.toFixed(3)} m²): only touching edges or slivers remain.`);
+  }
+  return result.geometry as Geometry;
+};
+
+/**
+ * Runs a boolean operation over layers and returns the new features, each with
+ * `operation` and the source layer ids/names recorded in its properties.
+ * Throws with a user-facing message when inputs are unsuitable or the result is empty.
+ */
+export const runBooleanOperation = (
+  layers: Layer[],
+  operation: BooleanOperation,
+  options: { dissolveProperty?: string } = {}
+): Feature[] => {
+  const minimum = operation === 'dissolve' ? 1 : 2;
+  if (layers.length < minimum) {
+    throw new Error(`Select at least ${minimum} layers for this operation.`);
+  }
+
+  const inputs = layers.map(layer => ({ layer, polygon: toPolygonFeature(layer) }));
+  const nonPolygonal = inputs.filter(input => !input.polygon).map(input => input.layer.name);
+  if (nonPolygonal.length > 0) {
+    throw new Error(`These layers have no polygon area: ${nonPolygonal.join(', ')}`);
+  }
+  const polygons = inputs.map(input => input.polygon as PolygonFeature);
+  const names = layers.map(l => l.name.split(',')[0]);
+
+  switch (operation) {
+    case 'union':
+      return [{
+        type: 'Feature',
+        properties: { name: `Union of ${names.join(' + ')}`, ...provenance(operation, layers) },
+        geometry: checkResult(unionAll(polygons), 'Union')
+      }];
+    case 'intersection':
+      return [{
+        type: 'Feature',
+        properties: { name: `Intersection of ${names.join(' & ')}`, ...provenance(operation, layers) },
+        geometry: checkResult(turf.intersect(turf.featureCollection(polygons)), 'Intersection')
+      }];
+    case 'difference':
+      return [{
+        type: 'Feature',
+        properties: { name: `${names[0]} minus ${names.slice(1).join(', ')}`, ...provenance(operation, layers) },
+        geometry: checkResult(turf.difference(turf.featureCollection(polygons)), 'Difference')
+      }];
+    case 'symmetricDifference':
+      return [{
+        type: 'Feature',
+        properties: { name: `Symmetric difference of ${names.join(', ')}`, ...provenance(operation, layers) },
+        geometry: checkResult(polygons.reduce<PolygonFeature | null>(symmetricDifference, null), 'Symmetric difference')
+      }];
+    case 'dissolve': {
+      const property = options.dissolveProperty?.trim();
+      if (!property) {
+        throw new Error('Choose the property to dissolve by.');
+      }
+
+      // Grouped on the raw value, so 1 and "1" stay apart; null and undefined share the missing group
+      const groups = new Map<unknown, { layers: Layer[]; polygons: PolygonFeature[] }>();
+      inputs.forEach(({ layer, polygon }) => {
+        const key = layer.feature.properties?.[property] ?? undefined;
+        const group = groups.get(key) || { layers: [], polygons: [] };
+        group.layers.push(layer);
+        group.polygons.push(polygon as PolygonFeature);
+        groups.set(key, group);
+      });
+
+      return [...groups.entries()].map(([value, group]) => {
+        const label = value === undefined ? '(missing)' : value === '' ? '(empty)' : JSON.stringify(value);
+        return {
+          type: 'Feature',
+          properties: {
+            name: `${property} = ${label}`,
+            ...(value === undefined ? {} : { [property]: value }),
+            dissolveProperty: property,
+            ...provenance(operation, group.layers)
+          },
+          geometry: checkResult(unionAll(group.polygons), `Dissolve of ${property} = ${label}`)
+        };
+      });
+    }
+  }
+};
+
+/**
+ * Lists property names shared by the given layers, for picking a dissolve key.
+ */
+export const getSharedProperties = (layers: Layer[]): string[] => {
+  const counts = new Map<string, number>();
+  layers.forEach(layer => {
+    Object.entries(layer.feature.properties || {}).forEach(([key, value]) => {
+      if (value !== null && typeof value !== 'object') counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  });
+  return [...counts.entries()].filter(([, count]) => count > 1).map(([key]) => key).sort();
+};
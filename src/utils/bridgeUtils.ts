@@ -0,0 +1,177 @@
+import * as turf from '@turf/turf';
+import type { Geometry as GeoJSONGeometry } from 'geojson';
+import type { Coordinate, Geometry, PolygonGeometry } from '../types';
+import { createKDTree, createSegmentIndex, type Point } from './spatialUtils';
+
+// Nearest joined vertices tried per vertex of the part being joined; the wider search runs only if every bridge from the first is blocked
+const BRIDGE_CANDIDATES = [4, 32];
+
+interface RingVertex {
+  ring: number;
+  coord: Coordinate;
+}
+
+const signedArea = (ring: Coordinate[]) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum / 2;
+};
+
+// Closed ring without repeated consecutive points, shells counter-clockwise and holes clockwise
+const normalizeRing = (ring: Coordinate[], shell: boolean): Coordinate[] => {
+  const clean = ring.filter((c, i) => i === 0 || c[0] !== ring[i - 1][0] || c[1] !== ring[i - 1][1]);
+  const first = clean[0];
+  const last = clean[clean.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) clean.push(first);
+  return (signedArea(clean) > 0) === shell ? clean : clean.reverse();
+};
+
+const sameCoord = (a: Coordinate, b: Coordinate) => a[0] === b[0] && a[1] === b[1];
+
+/**
+ * Whether direction `d` leaves vertex `ring[i]` on the side of the ring outside the
+ * polygon. With shells counter-clockwise and holes clockwise, the polygon is always to
+ * the left of travel, so the outside is the wedge swept counter-clockwise from the
+ * incoming edge to the outgoing one.
+ */
+const leavesOutward = (ring: Coordinate[], i: number, d: Point) => {
+  const n = ring.length - 1;
+  const v = ring[i];
+  const prev = ring[i === 0 ? n - 1 : i - 1];
+  const next = ring[i + 1];
+  const angle = (x: number, y: number) => Math.atan2(y, x);
+  const turn = (from: number, to: number) => ((to - from) % (2 * Math.PI) + 2 * Math.PI) % (2 * Math.PI);
+
+  const incoming = angle(prev[0] - v[0], prev[1] - v[1]);
+  const outgoing = angle(next[0] - v[0], next[1] - v[1]);
+  const wedge = turn(incoming, outgoing) || 2 * Math.PI;
+  return turn(incoming, angle(d[0], d[1])) < wedge;
+};
+
+/**
+ * Joins the parts of a (Multi)Polygon into one Polygon by cutting zero-width corridors
+ * between them. Each corridor is the shortest vertex-to-vertex bridge that crosses no
+ * edge of any part, hole or earlier corridor, found through a KD-tree of vertices.
+ * Holes of every part are kept, and parts sitting inside a hole are joined to that hole.
+ * Throws when there is no polygon with a ring of at least 4 points to join.
+ */
+export const bridgeMultiPolygon = (geojson: Geometry): PolygonGeometry => {
+  const polygons: Coordinate[][][] = [];
+  turf.flattenEach(geojson as unknown as GeoJSONGeometry, (feature) => {
+    if (feature.geometry.type === 'Polygon') {
+      const rings = (feature.geometry.coordinates as Coordinate[][]).filter(ring => ring.length >= 4);
+      if (rings.length > 0) polygons.push(rings);
+    }
+  });
+
+  if (polygons.length === 0) throw new Error('Nothing to bridge: the geometry has no polygon');
+  if (polygons.length === 1) return { type: 'Polygon', coordinates: polygons[0] };
+
+  // Original rings, numbered; parts list their shell first, then holes
+  const rings: Coordinate[][] = [];
+  const parts = polygons
+    .map(polygon => polygon.map((ring, i) => normalizeRing(ring, i === 0)))
+    .filter(polygon => polygon[0].length >= 4)
+    .map(polygon => ({ ids: polygon.map(ring => rings.push(ring) - 1), area: Math.abs(signedArea(polygon[0])) }))
+    .sort((a, b) => b.area - a.area);
+  if (parts.length === 0) throw new Error('Nothing to bridge: every polygon collapses below 4 points');
+
+  const [minX, minY, maxX, maxY] = turf.bbox(turf.multiPolygon(polygons));
+  // Longitude degrees shrink with latitude; scale them so nearest means nearest on the ground
+  const kx = Math.cos(((minY + maxY) / 2) * Math.PI / 180);
+  const toScaled = (c: Coordinate): Point => [c[0] * kx, c[1]];
+
+  const vertices: RingVertex[] = rings.flatMap((ring, id) => ring.slice(0, -1).map(coord => ({ ring: id, coord })));
+  // Only vertices of rings already in the output are bridge targets
+  const tree = createKDTree(vertices, v => toScaled(v.coord), false);
+  const firstVertex: number[] = [];
+  rings.reduce((offset, ring, id) => {
+    firstVertex[id] = offset;
+    return offset + ring.length - 1;
+  }, 0);
+  const activateRing = (id: number) => {
+    for (let i = 0; i < rings[id].length - 1; i++) tree.setActive(firstVertex[id] + i, true);
+  };
+  const edges = createSegmentIndex([minX, minY, maxX, maxY], vertices.length);
+  rings.forEach(ring => ring.slice(0, -1).forEach((c, i) => edges.add(c as Point, ring[i + 1] as Point)));
+
+  // Output rings: the growing shell first, then every hole; `owner` maps an original ring to its output ring
+  const output: Coordinate[][] = [];
+  const owner = new Array<number>(rings.length).fill(-1);
+  const attachHoles = (ids: number[]) => ids.slice(1).forEach(id => {
+    owner[id] = output.push(rings[id]) - 1;
+    activateRing(id);
+  });
+
+  owner[parts[0].ids[0]] = output.push(rings[parts[0].ids[0]]) - 1;
+  activateRing(parts[0].ids[0]);
+  attachHoles(parts[0].ids);
+
+  const findBridge = (shellId: number, checkCrossings: boolean) => {
+    const shell = rings[shellId];
+    for (const k of BRIDGE_CANDIDATES) {
+      const candidates = shell.slice(0, -1).flatMap((coord, s) =>
+        tree.nearest(toScaled(coord), k).map(n => ({ s, target: n.item, distSq: n.distSq })));
+      candidates.sort((a, b) => a.distSq - b.distSq);
+
+      for (const { s, target, distSq } of candidates) {
+        const from = shell[s];
+        const to = target.coord;
+        if (checkCrossings) {
+          if (distSq > 0 && !leavesOutward(shell, s, [to[0] - from[0], to[1] - from[1]])) continue;
+          if (edges.crosses(from as Point, to as Point)) continue;
+        }
+
+        // The target vertex can appear more than once after earlier bridges; use the copy facing the part
+        const ring = output[owner[target.ring]];
+        const direction: Point = [from[0] - to[0], from[1] - to[1]];
+        let index = -1;
+        for (let i = 0; i < ring.length - 1 && index === -1; i++) {
+          if (sameCoord(ring[i], to) && (!checkCrossings || distSq === 0 || leavesOutward(ring, i, direction))) index = i;
+        }
+        if (index !== -1) return { s, ringIndex: owner[target.ring], index };
+      }
+      if (!checkCrossings) break;
+    }
+    return null;
+  };
+
+  let pending = parts.slice(1);
+  let checkCrossings = true;
+  while (pending.length > 0) {
+    const deferred: typeof pending = [];
+    pending.forEach(part => {
+      const shellId = part.ids[0];
+      const bridge = findBridge(shellId, checkCrossings);
+      if (!bridge) {
+        deferred.push(part);
+        return;
+      }
+
+      const shell = rings[shellId];
+      const ring = output[bridge.ringIndex];
+      const { s, index } = bridge;
+      output[bridge.ringIndex] = [
+        ...ring.slice(0, index + 1),
+        ...shell.slice(s, -1),
+        ...shell.slice(0, s + 1),
+        ...ring.slice(index)
+      ];
+      edges.add(shell[s] as Point, ring[index] as Point);
+      owner[shellId] = bridge.ringIndex;
+      activateRing(shellId);
+      attachHoles(part.ids);
+    });
+
+    if (deferred.length === pending.length) {
+      // Only overlapping or otherwise invalid input gets here: join what is left by the shortest bridge
+      console.warn(`No crossing-free bridge for ${deferred.length} part(s); joining them by the shortest bridge`);
+      checkCrossings = false;
+    }
+    pending = deferred;
+  }
+
+  return { type: 'Polygon', coordinates: output };
+};
@@ -0,0 +1,118 @@
+import type { CitySearchResult, Feature, Layer, LayerProcessing } from '../types';
+import { exportProperties } from './attributeUtils';
+import { batchLayers, hasBoundary, matchResults } from './batchUtils';
+import type { GeocodeOptions, GeocoderProvider } from './geocoderUtils';
+import { processGeometry, toKMLDocument, withProcessingProperties } from './geometryUtils';
+import { toKMZ } from './kmzUtils';
+import { styleFromProperties, styleToProperties } from './styleUtils';
+
+export type OutputFormat = 'kml' | 'kmz' | 'geojson';
+
+const OUTPUT_EXTENSIONS: Record<string, OutputFormat> = {
+  kml: 'kml',
+  kmz: 'kmz',
+  geojson: 'geojson',
+  json: 'geojson'
+};
+
+// Candidates fetched for a single place lookup
+const PLACE_CANDIDATES = 5;
+
+const DEFAULT_COLOR = '#3b82f6';
+
+/**
+ * Works out the output format from a file name's extension.
+ */
+export const outputFormatFor = (fileName: string): OutputFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  const format = OUTPUT_EXTENSIONS[extension];
+  if (!format) throw new Error(`Unsupported output format ".${extension}"; use .kml, .kmz, .geojson or .json`);
+  return format;
+};
+
+/**
+ * A layer's feature as exported to GeoJSON: its attributes and style, but not app
+ * state such as the original boundary.
+ */
+export const toExportFeature = (layer: Layer): Feature => ({
+  ...layer.feature,
+  properties: { ...exportProperties(layer.feature.properties), ...styleToProperties(layer) }
+});
+
+/**
+ * Wraps imported features as layers, taking colour and style from their simplestyle
+ * or KML style properties.
+ */
+export const featuresToLayers = (features: Feature[], source: Layer['source'] = 'upload'): Layer[] =>
+  features.map((feature, index) => {
+    const { properties, color, style } = styleFromProperties(feature.properties);
+    return {
+      id: `layer-${index}`,
+      name: feature.properties.name || `Layer ${index + 1}`,
+      feature: { ...feature, properties },
+      color: color || DEFAULT_COLOR,
+      style,
+      visible: true,
+      editable: false,
+      source
+    };
+  });
+
+/**
+ * Runs the boundary pipeline on each feature, recording the mode in its properties.
+ */
+export const processFeatures = (features: Feature[], { mode, params }: LayerProcessing): Feature[] =>
+  features.map(feature => ({
+    ...feature,
+    geometry: processGeometry(feature.geometry, mode, params),
+    properties: withProcessingProperties(feature.properties, mode, params)
+  }));
+
+/**
+ * Serialises layers as one KML document, a KMZ, or a GeoJSON FeatureCollection.
+ */
+export const writeLayers = async (layers: Layer[], format: OutputFormat, name: string): Promise<string | Blob> => {
+  switch (format) {
+    case 'kml':
+      return toKMLDocument(layers, { name });
+    case 'kmz':
+      return toKMZ(toKMLDocument(layers, { name }));
+    case 'geojson':
+      return JSON.stringify({ type: 'FeatureCollection', features: layers.map(toExportFeature) }, null, 2);
+  }
+};
+
+/**
+ * Geocodes a place and ranks the candidates as batch mode does, best first.
+ */
+export const searchPlace = async (
+  query: string,
+  geocoder: GeocoderProvider,
+  options: GeocodeOptions = {}
+): Promise<CitySearchResult[]> =>
+  matchResults({ name: query }, await geocoder.search(query, { limit: PLACE_CANDIDATES, ...options })).results;
+
+/**
+ * Picks the boundary to use for a place: the best-ranked candidate, or the nth
+ * (1-based) when `choice` is given. Throws when there is nothing with a boundary.
+ */
+export const findPlace = async (
+  query: string,
+  geocoder: GeocoderProvider,
+  choice?: number,
+  options: GeocodeOptions = {}
+): Promise<CitySearchResult> => {
+  const results = await searchPlace(query, geocoder, options);
+  if (results.length === 0) throw new Error(`No results for "${query}"`);
+
+  const result = results[(choice ?? 1) - 1];
+  if (!result) throw new Error(`Only ${results.length} result${results.length === 1 ? '' : 's'} for "${query}"`);
+  if (!hasBoundary(result)) throw new Error(`"${result.display_name}" has no boundary polygon`);
+  return result;
+};
+
+/**
+ * Processes a geocoder result's boundary into a layer ready for export.
+ */
+export const placeToLayer = (result: CitySearchResult, processing: LayerProcessing): Layer =>
+  batchLayers([result], [processGeometry(result.geojson, processing.mode, processing.params)], processing)[0];
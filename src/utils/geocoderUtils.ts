@@ -0,0 +1,255 @@
+import type { CitySearchResult } from '../types';
+
+/** Nominatim's coarse place filter; other providers map it as closely as they can. */
+export type SearchFeatureType = 'country' | 'state' | 'city' | 'settlement';
+
+export interface GeocodeOptions {
+  limit?: number;
+  signal?: AbortSignal;
+  /** ISO 3166-1 alpha-2 codes, lower-case. */
+  countryCodes?: string[];
+  featureType?: SearchFeatureType;
+  /** Preferred language for names, e.g. "en" or "fr". */
+  language?: string;
+  /** Results already shown, by `resultId`, to fetch the next page. */
+  exclude?: string[];
+}
+
+/**
+ * Anything that can turn a free-text place query into Nominatim-shaped results.
+ */
+export interface GeocoderProvider {
+  name: string;
+  search: (query: string, options?: GeocodeOptions) => Promise<CitySearchResult[]>;
+}
+
+export interface GeocoderConfig {
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  /** Sent as the User-Agent header where the runtime allows it (browsers ignore it). */
+  userAgent?: string;
+  /** Contact address, passed as Nominatim's `email` parameter. */
+  email?: string;
+  /** Minimum delay between requests in milliseconds. */
+  minIntervalMs?: number;
+}
+
+export type GeocoderKind = 'nominatim' | 'photon' | 'file';
+
+/**
+ * Serialises calls so that consecutive tasks start at least `minIntervalMs` apart.
+ */
+export const createThrottle = (minIntervalMs: number) => {
+  let queue: Promise<unknown> = Promise.resolve();
+  let lastStart = 0;
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const run = async () => {
+      const wait = lastStart + minIntervalMs - Date.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+      lastStart = Date.now();
+      return task();
+    };
+    const result = queue.then(run, run);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+};
+
+const buildHeaders = (config: GeocoderConfig): Record<string, string> => ({
+  Accept: 'application/json',
+  ...(config.userAgent ? { 'User-Agent': config.userAgent } : {}),
+  ...(config.headers || {})
+});
+
+const fetchJson = async <T>(url: string, config: GeocoderConfig, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(url, { headers: buildHeaders(config), signal });
+  if (!response.ok) {
+    throw new Error(`Geocoder request failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+/**
+ * Nominatim (public or self-hosted). Throttled to 1 request/second by default,
+ * as required by the public instance's usage policy.
+ */
+export const createNominatimProvider = (config: GeocoderConfig = {}): GeocoderProvider => {
+  const baseUrl = (config.baseUrl || 'https://nominatim.openstreetmap.org').replace(/\/$/, '');
+  const throttle = createThrottle(config.minIntervalMs ?? 1000);
+
+  return {
+    name: 'nominatim',
+    search: (query, options = {}) => throttle(() => {
+      const params = new URLSearchParams({
+        format: 'json',
+        q: query,
+        polygon_geojson: '1',
+        addressdetails: '1'
+      });
+      if (options.limit) params.set('limit', String(options.limit));
+      if (options.countryCodes?.length) params.set('countrycodes', options.countryCodes.join(','));
+      if (options.featureType) params.set('featureType', options.featureType);
+      if (options.language) params.set('accept-language', options.language);
+      if (options.exclude?.length) params.set('exclude_place_ids', options.exclude.join(','));
+      if (config.email) params.set('email', config.email);
+
+      return fetchJson<CitySearchResult[]>(`${baseUrl}/search?${params}`, config, options.signal);
+    })
+  };
+};
+
+/**
+ * Identifies a result across pages: Nominatim's place_id, else the OSM id.
+ */
+export const resultId = (result: CitySearchResult): string => String(result.place_id ?? result.osm_id);
+
+// For providers that can't filter by country or page server-side: drop what doesn't
+// match, then cut back to the requested page size (they are asked for extra to allow for it)
+const filterResults = (results: CitySearchResult[], options: GeocodeOptions): CitySearchResult[] => {
+  const excluded = new Set(options.exclude);
+  const filtered = results.filter(result =>
+    !excluded.has(resultId(result)) &&
+    (!options.countryCodes?.length || options.countryCodes.includes(result.address?.country_code || '')));
+  return options.limit ? filtered.slice(0, options.limit) : filtered;
+};
+
+// Extra results asked of Photon when filtering by country, which it can only do client-side
+const PHOTON_COUNTRY_MARGIN = 20;
+
+// Photon layers closest to each Nominatim featureType
+const PHOTON_LAYERS: Record<SearchFeatureType, string[]> = {
+  country: ['country'],
+  state: ['state'],
+  city: ['city'],
+  settlement: ['city', 'district', 'locality']
+};
+
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    osm_id: number;
+    osm_type?: string;
+    osm_key?: string;
+    osm_value?: string;
+    type?: string;
+    countrycode?: string;
+    name?: string;
+    city?: string;
+    state?: string;
+    country?: string;
+    extent?: [number, number, number, number];
+  };
+}
+
+/**
+ * Photon (komoot). Returns points only; results carry no boundary polygon.
+ */
+export const createPhotonProvider = (config: GeocoderConfig = {}): GeocoderProvider => {
+  const baseUrl = (config.baseUrl || 'https://photon.komoot.io').replace(/\/$/, '');
+  const throttle = createThrottle(config.minIntervalMs ?? 0);
+
+  return {
+    name: 'photon',
+    search: (query, options = {}) => throttle(async () => {
+      const params = new URLSearchParams({ q: query });
+      const extra = (options.exclude?.length || 0) + (options.countryCodes?.length ? PHOTON_COUNTRY_MARGIN : 0);
+      if (options.limit) params.set('limit', String(options.limit + extra));
+      if (options.language) params.set('lang', options.language);
+      if (options.featureType) PHOTON_LAYERS[options.featureType].forEach(layer => params.append('layer', layer));
+
+      const data = await fetchJson<{ features?: PhotonFeature[] }>(`${baseUrl}/api/?${params}`, config, options.signal);
+      const results = (data.features || []).map((feature): CitySearchResult => {
+        const { properties } = feature;
+        const [lon, lat] = feature.geometry.coordinates;
+        const extent = properties.extent;
+        return {
+          display_name: [properties.name, properties.city, properties.state, properties.country]
+            .filter((part, i, parts) => part && parts.indexOf(part) === i)
+            .join(', '),
+          lat: String(lat),
+          lon: String(lon),
+          osm_id: String(properties.osm_id),
+          class: properties.osm_key,
+          type: properties.osm_value,
+          addresstype: properties.type,
+          ...(properties.countrycode ? { address: { country_code: properties.countrycode.toLowerCase() } } : {}),
+          // Photon's extent is west, north, east, south
+          ...(extent ? { boundingbox: [extent[3], extent[1], extent[0], extent[2]].map(String) as [string, string, string, string] } : {})
+        };
+      });
+      return filterResults(results, options);
+    })
+  };
+};
+
+export type FixtureSource = CitySearchResult[] | Record<string, CitySearchResult[]>;
+
+const normalizeQuery = (query: string) => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Serves saved geocoder responses (e.g. debug_london.json) for offline use and tests.
+ * A fixture is either one saved response, matched against display_name, or a map
+ * from query text to response.
+ */
+export const createFileProvider = (source: FixtureSource | string, config: GeocoderConfig = {}): GeocoderProvider => {
+  let fixtures: Promise<FixtureSource> | null = null;
+  const load = () => {
+    fixtures ??= typeof source === 'string'
+      ? fetchJson<FixtureSource>(source, config)
+      : Promise.resolve(source);
+    return fixtures;
+  };
+
+  return {
+    name: 'file',
+    search: async (query, options = {}) => {
+      const data = await load();
+      const normalized = normalizeQuery(query);
+
+      const results = Array.isArray(data)
+        ? data.filter(result => normalizeQuery(result.display_name).includes(normalized) ||
+            normalized.split(' ').every(word => normalizeQuery(result.display_name).includes(word)))
+        : data[normalized] || [];
+
+      return filterResults(results, options);
+    }
+  };
+};
+
+/**
+ * Creates a geocoder by name.
+ */
+export const createGeocoder = (kind: GeocoderKind = 'nominatim', config: GeocoderConfig = {}): GeocoderProvider => {
+  switch (kind) {
+    case 'photon':
+      return createPhotonProvider(config);
+    case 'file':
+      if (!config.baseUrl) throw new Error('The file geocoder needs a fixture URL');
+      return createFileProvider(config.baseUrl, config);
+    default:
+      return createNominatimProvider(config);
+  }
+};
+
+/**
+ * Reads the geocoder set-up from VITE_GEOCODER* environment variables.
+ */
+export const createGeocoderFromEnv = (env: Record<string, string | undefined>): GeocoderProvider => {
+  let headers: Record<string, string> | undefined;
+  if (env.VITE_GEOCODER_HEADERS) {
+    try {
+      headers = JSON.parse(env.VITE_GEOCODER_HEADERS);
+    } catch {
+      console.warn('Ignoring VITE_GEOCODER_HEADERS: not valid JSON');
+    }
+  }
+
+  return createGeocoder((env.VITE_GEOCODER as GeocoderKind) || 'nominatim', {
+    baseUrl: env.VITE_GEOCODER_URL,
+    email: env.VITE_GEOCODER_EMAIL,
+    userAgent: env.VITE_GEOCODER_USER_AGENT,
+    headers,
+    minIntervalMs: env.VITE_GEOCODER_MIN_INTERVAL_MS ? Number(env.VITE_GEOCODER_MIN_INTERVAL_MS) : undefined
+  });
+};
@@ -0,0 +1,64 @@
+import type { EditMode, Feature, Geometry, ProcessingParams } from '../types';
+import { processGeometry } from './geometryUtils';
+import { importFile, parseImportText, type ImportResult } from './importUtils';
+import { simplifyToTarget, type SimplifyAlgorithm, type SimplifyResult, type SimplifyTarget } from './simplifyUtils';
+
+/** Work the geometry worker can do; everything in a job must survive structured cloning. */
+export type GeometryJob =
+  | { type: 'importFile'; file: File }
+  | { type: 'importText'; text: string }
+  | { type: 'process'; items: Geometry[]; mode: EditMode; params: ProcessingParams }
+  | { type: 'simplify'; feature: Feature; name: string; algorithm: SimplifyAlgorithm; target: SimplifyTarget };
+
+export interface GeometryJobResults {
+  importFile: ImportResult;
+  importText: ImportResult;
+  process: Geometry[];
+  simplify: SimplifyResult;
+}
+
+export type GeometryJobResult<J extends GeometryJob> = GeometryJobResults[J['type']];
+
+export interface JobProgress {
+  /** Items finished so far, out of `total`. */
+  done: number;
+  total: number;
+  /** The step currently running, e.g. "Bridging parts". */
+  step: string;
+}
+
+export interface WorkerRequest {
+  id: number;
+  job: GeometryJob;
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: JobProgress }
+  | { id: number; type: 'done'; result: GeometryJobResults[GeometryJob['type']] }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * Runs a job to completion. Used inside the worker, and on the main thread where
+ * workers are unavailable.
+ */
+export const runGeometryJob = async (
+  job: GeometryJob,
+  onProgress: (progress: JobProgress) => void
+): Promise<GeometryJobResults[GeometryJob['type']]> => {
+  switch (job.type) {
+    case 'importFile':
+      onProgress({ done: 0, total: 1, step: `Reading ${job.file.name}` });
+      return importFile(job.file);
+    case 'importText':
+      onProgress({ done: 0, total: 1, step: 'Parsing pasted data' });
+      return parseImportText(job.text);
+    case 'process': {
+      const total = job.items.length;
+      return job.items.map((item, done) =>
+        processGeometry(item, job.mode, job.params, step => onProgress({ done, total, step })));
+    }
+    case 'simplify':
+      onProgress({ done: 0, total: 1, step: `Simplifying ${job.name}` });
+      return simplifyToTarget(job.feature, job.name, job.algorithm, job.target);
+  }
+};
@@ -0,0 +1,170 @@
+import {
+  runGeometryJob,
+  type GeometryJob,
+  type GeometryJobResult,
+  type JobProgress,
+  type WorkerResponse
+} from './geometryJobs';
+
+/** A job as shown to the user: waiting in the queue or running. */
+export interface QueuedJob {
+  id: number;
+  label: string;
+  running: boolean;
+  progress: JobProgress | null;
+}
+
+export interface RunOptions {
+  /** Shown in the job list, e.g. the file name. */
+  label: string;
+  /** Aborting cancels the job, whether it is still waiting or already running. */
+  signal?: AbortSignal;
+}
+
+export interface GeometryQueue {
+  run: <J extends GeometryJob>(job: J, options: RunOptions) => Promise<GeometryJobResult<J>>;
+  cancel: (id: number) => void;
+  /** Calls `listener` with the job list now and whenever it changes; returns an unsubscribe function. */
+  subscribe: (listener: (jobs: QueuedJob[]) => void) => () => void;
+}
+
+interface Entry extends QueuedJob {
+  job: GeometryJob;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  detach: () => void;
+}
+
+const cancelledError = () => new DOMException('Job cancelled', 'AbortError');
+
+/** True for the rejection of a job that was cancelled rather than one that failed. */
+export const isCancelled = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const defaultWorkerFactory = typeof Worker === 'undefined'
+  ? null
+  : () => new Worker(new URL('../workers/geometry.worker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Runs geometry jobs one after another in a Web Worker, so large imports and
+ * reprocessing never block the map. Cancelling the running job terminates the worker
+ * and starts a fresh one for the next job. Without Worker support, jobs run on the
+ * main thread and a cancelled job's result is simply dropped.
+ */
+export const createGeometryQueue = (createWorker: (() => Worker) | null = defaultWorkerFactory): GeometryQueue => {
+  const waiting: Entry[] = [];
+  const listeners = new Set<(jobs: QueuedJob[]) => void>();
+  let current: Entry | null = null;
+  let worker: Worker | null = null;
+  let nextId = 1;
+
+  const snapshot = (): QueuedJob[] =>
+    [current, ...waiting]
+      .filter((entry): entry is Entry => entry !== null)
+      .map(({ id, label, running, progress }) => ({ id, label, running, progress }));
+
+  const notify = () => {
+    const jobs = snapshot();
+    listeners.forEach(listener => listener(jobs));
+  };
+
+  const finish = (entry: Entry) => {
+    entry.detach();
+    if (current === entry) current = null;
+    notify();
+    // Let the UI catch up before the next job starts
+    setTimeout(startNext, 0);
+  };
+
+  const handleResponse = (response: WorkerResponse) => {
+    const entry = current;
+    if (!entry || response.id !== entry.id) return;
+
+    if (response.type === 'progress') {
+      entry.progress = response.progress;
+      notify();
+      return;
+    }
+    finish(entry);
+    if (response.type === 'done') entry.resolve(response.result);
+    else entry.reject(new Error(response.message));
+  };
+
+  const getWorker = (factory: () => Worker) => {
+    if (!worker) {
+      worker = factory();
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => handleResponse(event.data);
+      worker.onerror = (event) => {
+        event.preventDefault();
+        worker?.terminate();
+        worker = null;
+        if (current) handleResponse({ id: current.id, type: 'error', message: event.message || 'Geometry worker failed' });
+      };
+    }
+    return worker;
+  };
+
+  const startNext = () => {
+    if (current || waiting.length === 0) return;
+    const entry = waiting.shift()!;
+    current = entry;
+    entry.running = true;
+    notify();
+
+    if (createWorker) {
+      getWorker(createWorker).postMessage({ id: entry.id, job: entry.job });
+      return;
+    }
+    runGeometryJob(entry.job, progress => handleResponse({ id: entry.id, type: 'progress', progress }))
+      .then(result => handleResponse({ id: entry.id, type: 'done', result }))
+      .catch(error => handleResponse({ id: entry.id, type: 'error', message: error instanceof Error ? error.message : String(error) }));
+  };
+
+  const cancel = (id: number) => {
+    let entry: Entry | undefined;
+    if (current?.id === id) {
+      entry = current;
+      worker?.terminate();
+      worker = null;
+    } else {
+      const index = waiting.findIndex(e => e.id === id);
+      if (index === -1) return;
+      entry = waiting.splice(index, 1)[0];
+    }
+    finish(entry);
+    entry.reject(cancelledError());
+  };
+
+  const run = <J extends GeometryJob>(job: J, { label, signal }: RunOptions) =>
+    new Promise<GeometryJobResult<J>>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(cancelledError());
+        return;
+      }
+      const id = nextId++;
+      const onAbort = () => cancel(id);
+      signal?.addEventListener('abort', onAbort);
+      waiting.push({
+        id,
+        label,
+        running: false,
+        progress: null,
+        job,
+        resolve: result => resolve(result as GeometryJobResult<J>),
+        reject,
+        detach: () => signal?.removeEventListener('abort', onAbort)
+      });
+      notify();
+      startNext();
+    });
+
+  const subscribe = (listener: (jobs: QueuedJob[]) => void) => {
+    listeners.add(listener);
+    listener(snapshot());
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { run, cancel, subscribe };
+};
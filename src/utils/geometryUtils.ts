@@ -1,5 +1,10 @@
 import * as turf from '@turf/turf';
-import type { Coordinate, Feature } from '../types';
+import type { Geometry as GeoJSONGeometry } from 'geojson';
+import type { Coordinate, EditMode, Feature, Geometry, KMLGeometryOptions, Layer, LineStringGeometry, PointGeometry, PolygonGeometry, ProcessingParams } from '../types';
+import { FEATURE_TEXT_PROPERTIES, INTERNAL_PROPERTIES, attributeType, type AttributeType } from './attributeUtils';
+import { bridgeMultiPolygon } from './bridgeUtils';
+import { getLayerStyle, type ResolvedStyle } from './styleUtils';
+import { parseXML, type XmlElement } from './xmlUtils';
 
 /**
  * Converts any GeoJSON geometry to 2D by dropping Z coordinates.
@@ -8,10 +13,38 @@ export const convertTo2D = (geojson: any): any => {
   return turf.truncate(geojson, { precision: 10, coordinates: 2 });
 };
 
+export const EDIT_MODES: { value: EditMode; label: string; description: string }[] = [
+  { value: 'accurate', label: 'Accurate', description: 'Exact boundary, separate parts bridged into one polygon' },
+  { value: 'approximate', label: 'Approximate', description: 'Gaps between parts filled by buffering, then bridged' },
+  { value: 'multipolygon', label: 'Multi-part', description: 'Exact boundary, parts kept as a MultiPolygon' },
+  { value: 'largestPart', label: 'Largest part', description: 'Only the part with the largest area' },
+  { value: 'convexHull', label: 'Convex hull', description: 'Smallest convex polygon around every part' },
+  { value: 'concaveHull', label: 'Concave hull', description: 'Hull hugging the parts, with edges up to alpha km' },
+];
+
+export const DEFAULT_PROCESSING_PARAMS: ProcessingParams = {
+  bufferKm: 0.2,
+  minIslandAreaKm2: 0,
+  fillHolesBelowKm2: 0,
+  concaveAlphaKm: 5,
+  flatten: false
+};
+
+// Modes that build new vertices (buffers, hulls) and so can only produce 2D output
+export const FLATTENING_MODES: EditMode[] = ['approximate', 'convexHull', 'concaveHull'];
+
+// Hulls are computed from at most this many vertices, sampled evenly along the rings
+const MAX_HULL_POINTS = 5000;
+
 /**
  * Ensures a geometry is a single Polygon.
  */
-export const ensureSinglePolygon = (geojson: any, mode: 'accurate' | 'approximate' = 'accurate'): any => {
+export const ensureSinglePolygon = (
+  geojson: any,
+  mode: 'accurate' | 'approximate' = 'accurate',
+  bufferKm: number = DEFAULT_PROCESSING_PARAMS.bufferKm,
+  onStep: (step: string) => void = () => {}
+): any => {
   // 1. Flatten everything to a collection of polygons
   const polygons: any[] = [];
   turf.flattenEach(geojson, (feature) => {
@@ -29,10 +62,10 @@ export const ensureSinglePolygon = (geojson: any, mode: 'accurate' | 'approximat
   };
 
   // 2. APPROXIMATE MODE: Backfill using Buffer and Union
-  if (mode === 'approximate') {
+  if (mode === 'approximate' && bufferKm > 0) {
     try {
-      // Buffer ~200m (roughly 0.002 degrees)
-      const buffered = turf.buffer(processedGeoJson, 0.2, { units: 'kilometers' });
+      onStep('Buffering parts');
+      const buffered = turf.buffer(processedGeoJson, bufferKm, { units: 'kilometers' });
       if (buffered) {
         // Union all parts
         let united: any = buffered;
@@ -41,6 +74,7 @@ export const ensureSinglePolygon = (geojson: any, mode: 'accurate' | 'approximat
           if (parts.length > 1) {
             let combined: any = parts[0];
             for (let i = 1; i < parts.length; i++) {
+              onStep(`Merging parts (${i}/${parts.length - 1})`);
               const unionResult = turf.union(turf.featureCollection([combined, parts[i]]));
               if (unionResult) combined = unionResult;
             }
@@ -48,8 +82,9 @@ export const ensureSinglePolygon = (geojson: any, mode: 'accurate' | 'approximat
           }
         }
 
-        // Buffer back by -200m
-        const shrunk = turf.buffer(united, -0.2, { units: 'kilometers' });
+        // Shrink back by the same distance
+        onStep('Shrinking back');
+        const shrunk = turf.buffer(united, -bufferKm, { units: 'kilometers' });
         if (shrunk) {
           processedGeoJson = turf.simplify(shrunk, { tolerance: 0.0005, highQuality: true }).geometry;
         }
@@ -60,88 +95,214 @@ export const ensureSinglePolygon = (geojson: any, mode: 'accurate' | 'approximat
   }
 
   // 3. Bridge remaining parts into a single Polygon
+  onStep('Bridging parts');
   return bridgeMultiPolygon(processedGeoJson);
 };
 
+const polygonAreaKm2 = (rings: Coordinate[][]) => turf.area(turf.polygon(rings)) / 1e6;
+
 /**
- * Bridges a MultiPolygon into a single Polygon by connecting rings.
+ * Drops islands below the minimum area (never the largest part) and fills small holes.
  */
-const bridgeMultiPolygon = (geojson: any): any => {
-  // Flatten to be sure we have Polygons
-  const polygons: any[] = [];
-  turf.flattenEach(geojson, (feature) => {
-    if (feature.geometry.type === 'Polygon') {
-      // Filter out rings with < 4 points (turf.polygon requirement)
-      const validRings = feature.geometry.coordinates.filter((ring: any) => ring.length >= 4);
-      if (validRings.length > 0) {
-        polygons.push(validRings);
-      }
-    }
-  });
+const cleanPolygons = (polygons: Coordinate[][][], params: ProcessingParams): Coordinate[][][] => {
+  const areas = polygons.map(rings => polygonAreaKm2([rings[0]]));
+  const largest = areas.indexOf(Math.max(...areas));
+
+  return polygons
+    .filter((_, i) => i === largest || areas[i] >= params.minIslandAreaKm2)
+    .map(([shell, ...holes]) => [
+      shell,
+      ...(params.fillHolesBelowKm2 > 0
+        ? holes.filter(hole => hole.length < 4 || polygonAreaKm2([hole]) >= params.fillHolesBelowKm2)
+        : holes)
+    ]);
+};
 
-  if (polygons.length === 0) return { type: 'Polygon', coordinates: [[]] };
-  if (polygons.length === 1) return { type: 'Polygon', coordinates: polygons[0] };
-
-  // Sort by area (outer ring)
-  const sortedPolys = polygons.map((p: any) => ({
-    coordinates: p,
-    area: turf.area(turf.polygon([p[0]]))
-  })).sort((a: any, b: any) => b.area - a.area);
-
-  let trunk = sortedPolys[0].coordinates[0]; // Outer ring of largest polygon
-  const trunkHoles = sortedPolys[0].coordinates.slice(1);
-
-  for (let i = 1; i < sortedPolys.length; i++) {
-    const subPolyRing = sortedPolys[i].coordinates[0];
-
-    let minDistSq = Infinity;
-    let trunkIdx = 0;
-    let subIdx = 0;
-
-    const stepT = trunk.length > 1000 ? Math.floor(trunk.length / 500) : 1;
-    const stepS = subPolyRing.length > 1000 ? Math.floor(subPolyRing.length / 500) : 1;
-
-    for (let t = 0; t < trunk.length; t += stepT) {
-      const p1 = trunk[t];
-      for (let s = 0; s < subPolyRing.length; s += stepS) {
-        const p2 = subPolyRing[s];
-        const dx = p1[0] - p2[0];
-        const dy = p1[1] - p2[1];
-        const d2 = dx * dx + dy * dy;
-        if (d2 < minDistSq) {
-          minDistSq = d2;
-          trunkIdx = t;
-          subIdx = s;
+// Edges longer than `spacingKm` get intermediate points, so a concave hull can follow long straight edges
+const hullPoints = (polygons: Coordinate[][][], spacingKm: number) => {
+  const vertices = polygons.flatMap(rings => rings[0].flatMap((c, i, ring) => {
+    if (i === ring.length - 1 || spacingKm <= 0) return [c];
+    const next = ring[i + 1];
+    const steps = Math.min(100, Math.floor(turf.distance(c, next, { units: 'kilometers' }) / spacingKm));
+    return Array.from({ length: steps + 1 }, (_, k): Coordinate => [
+      c[0] + (next[0] - c[0]) * k / (steps + 1),
+      c[1] + (next[1] - c[1]) * k / (steps + 1)
+    ]);
+  }));
+  const step = Math.max(1, Math.ceil(vertices.length / MAX_HULL_POINTS));
+  return turf.featureCollection(vertices.filter((_, i) => i % step === 0).map(c => turf.point(c)));
+};
+
+/**
+ * Turns polygon parts into the boundary for the given mode.
+ */
+const processPolygons = (
+  polygons: Coordinate[][][],
+  mode: EditMode,
+  params: ProcessingParams,
+  onStep: (step: string) => void
+): Geometry => {
+  const multiPolygon: Geometry = polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+
+  switch (mode) {
+    case 'accurate':
+    case 'approximate':
+      return ensureSinglePolygon(multiPolygon, mode, params.bufferKm, onStep);
+    case 'multipolygon':
+      return multiPolygon;
+    case 'largestPart': {
+      const areas = polygons.map(rings => polygonAreaKm2([rings[0]]));
+      return { type: 'Polygon', coordinates: polygons[areas.indexOf(Math.max(...areas))] };
+    }
+    case 'convexHull':
+    case 'concaveHull': {
+      onStep('Computing hull');
+      const points = hullPoints(polygons, mode === 'concaveHull' ? params.concaveAlphaKm / 2 : 0);
+      if (mode === 'concaveHull') {
+        const concave = turf.concave(points, { maxEdge: params.concaveAlphaKm, units: 'kilometers' });
+        if (concave) {
+          // Points only sample the outlines, so add the shells back to cover part interiors
+          const shells = polygons.map(rings => turf.polygon([rings[0]]));
+          const hull = turf.union(turf.featureCollection([concave, ...shells]));
+          // A hull has no holes; gaps enclosed between parts are filled
+          if (hull) return { type: 'Polygon', coordinates: [bridgeMultiPolygon(hull.geometry as Geometry).coordinates[0]] };
         }
+        console.warn(`Concave hull with alpha ${params.concaveAlphaKm} km is empty, falling back to convex hull`);
       }
+      const convex = turf.convex(points);
+      // turf.convex winds the hull clockwise; RFC 7946 wants outer rings counter-clockwise
+      return convex ? turf.rewind(convex.geometry) as Geometry : multiPolygon;
+    }
+  }
+};
+
+/**
+ * Runs the boundary pipeline (island/hole cleanup, then the mode) on the polygonal
+ * parts of a geometry, passing points and lines through unchanged. Altitudes are kept
+ * unless `params.flatten` is set or the mode builds new vertices.
+ * `onStep` is told the name of each slow step as it starts.
+ */
+export const processGeometry = (
+  geometry: Geometry,
+  mode: EditMode = 'accurate',
+  params: ProcessingParams = DEFAULT_PROCESSING_PARAMS,
+  onStep: (step: string) => void = () => {}
+): Geometry => {
+  const flatten = params.flatten || FLATTENING_MODES.includes(mode);
+  if (flatten) onStep('Converting to 2D');
+  const flat: Geometry = flatten ? convertTo2D(geometry) : geometry;
+
+  const polygons: Coordinate[][][] = [];
+  const others: Geometry[] = [];
+  turf.flattenEach(flat as unknown as GeoJSONGeometry, (feature) => {
+    if (feature.geometry.type === 'Polygon') {
+      const rings = (feature.geometry.coordinates as Coordinate[][]).filter(ring => ring.length >= 4);
+      if (rings.length > 0) polygons.push(rings);
+    } else {
+      others.push(feature.geometry as Geometry);
     }
+  });
 
-    trunk = [
-      ...trunk.slice(0, trunkIdx + 1),
-      ...subPolyRing.slice(subIdx),
-      ...subPolyRing.slice(0, subIdx + 1),
-      ...trunk.slice(trunkIdx)
-    ];
+  if (polygons.length === 0) {
+    return combineGeometries(others) || { type: 'Polygon', coordinates: [] };
   }
 
+  onStep('Cleaning parts');
+  const boundary = processPolygons(cleanPolygons(polygons, params), mode, params, onStep);
+  return others.length > 0 ? { type: 'GeometryCollection', geometries: [boundary, ...others] } : boundary;
+};
+
+/**
+ * True for the empty Polygon that processing returns when a result has no area to keep.
+ */
+export const isEmptyGeometry = (geometry: Geometry): boolean =>
+  (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') && geometry.coordinates.length === 0;
+
+const PROCESSING_PROPERTIES = ['processingMode', 'bufferKm', 'concaveAlphaKm', 'minIslandAreaKm2', 'fillHolesBelowKm2', 'flattened'];
+
+/**
+ * Records the mode and the parameters it used as flat properties, replacing any
+ * left from an earlier run.
+ */
+export const withProcessingProperties = (
+  properties: Feature['properties'],
+  mode: EditMode,
+  params: ProcessingParams
+): Feature['properties'] => {
+  const result = Object.fromEntries(Object.entries(properties).filter(([key]) => !PROCESSING_PROPERTIES.includes(key)));
   return {
-    type: 'Polygon',
-    coordinates: [trunk, ...trunkHoles]
+    ...result,
+    processingMode: mode,
+    ...(mode === 'approximate' ? { bufferKm: params.bufferKm } : {}),
+    ...(mode === 'concaveHull' ? { concaveAlphaKm: params.concaveAlphaKm } : {}),
+    ...(params.minIslandAreaKm2 > 0 ? { minIslandAreaKm2: params.minIslandAreaKm2 } : {}),
+    ...(params.fillHolesBelowKm2 > 0 ? { fillHolesBelowKm2: params.fillHolesBelowKm2 } : {}),
+    ...(params.flatten ? { flattened: true } : {})
   };
 };
 
 /**
- * Generates a simple KML string from GeoJSON.
+ * Approximates a circle as a Polygon with the given number of segments.
+ */
+export const createCirclePolygon = (center: Coordinate, radiusKm: number, segments: number = 64): Geometry =>
+  turf.circle(center, radiusKm, { steps: segments, units: 'kilometers' }).geometry as Geometry;
+
+/**
+ * Escapes the five XML special characters for use in text and attribute values.
  */
-export const toKML = (geojson: any, name: string = 'Boundary'): string => {
-  // const coordinates = turf.getCoords(geojson);
+export const escapeXml = (value: unknown): string =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
 
-  // Flatten for KML format: lon,lat,0
-  const coordString = (coords: Coordinate[]) =>
-    coords.map(c => `${c[0]},${c[1]},0`).join(' ');
+// KML coordinates are always lon,lat,alt; 2D positions get altitude 0
+const coordString = (coords: Coordinate[]) =>
+  coords.map(c => `${c[0]},${c[1]},${c[2] ?? 0}`).join(' ');
 
-  const polygonToKML = (rings: Coordinate[][]) => `
-      <Polygon>
+const positionsOf = (geom: Geometry): Coordinate[] => {
+  switch (geom.type) {
+    case 'Point':
+      return [geom.coordinates];
+    case 'MultiPoint':
+    case 'LineString':
+      return geom.coordinates;
+    case 'MultiLineString':
+    case 'Polygon':
+      return geom.coordinates.flat();
+    case 'MultiPolygon':
+      return geom.coordinates.flat(2);
+    case 'GeometryCollection':
+      return geom.geometries.flatMap(positionsOf);
+  }
+};
+
+const hasAltitude = (geom: Geometry): boolean => positionsOf(geom).some(c => c.length > 2);
+
+// gx: altitude modes are Google extensions and need their own element
+const GX_ALTITUDE_MODES = new Set(['clampToSeaFloor', 'relativeToSeaFloor']);
+
+/**
+ * The extrude, tessellate and altitudeMode elements for one geometry. Extrude and
+ * altitude mode only mean something when the geometry has altitudes.
+ */
+const geometryOptionsToKML = (options: KMLGeometryOptions, withAltitude: boolean, indent: string): string => {
+  const lines: string[] = [];
+  if (withAltitude && options.extrude) lines.push('<extrude>1</extrude>');
+  if (options.tessellate) lines.push('<tessellate>1</tessellate>');
+  if (withAltitude && options.altitudeMode) {
+    const tag = GX_ALTITUDE_MODES.has(options.altitudeMode) ? 'gx:altitudeMode' : 'altitudeMode';
+    lines.push(`<${tag}>${escapeXml(options.altitudeMode)}</${tag}>`);
+  }
+  return lines.map(line => `\n${indent}${line}`).join('');
+};
+
+const polygonToKML = (rings: Coordinate[][], options: KMLGeometryOptions = {}) => `
+      <Polygon>${geometryOptionsToKML(options, hasAltitude({ type: 'Polygon', coordinates: rings }), '        ')}
         <outerBoundaryIs>
           <LinearRing>
             <coordinates>${coordString(rings[0])}</coordinates>
@@ -156,184 +317,578 @@ export const toKML = (geojson: any, name: string = 'Boundary'): string => {
         `).join('')}
       </Polygon>`;
 
-  let geometryKml = '';
-  const geom = geojson.geometry;
-
-  if (geom.type === 'Polygon') {
-    geometryKml = polygonToKML(geom.coordinates);
-  } else if (geom.type === 'MultiPolygon') {
-    geometryKml = `
+const geometryToKML = (geom: Geometry, options: KMLGeometryOptions = {}): string => {
+  switch (geom.type) {
+    case 'Point':
+      return `
+      <Point>${geometryOptionsToKML(options, hasAltitude(geom), '        ')}
+        <coordinates>${coordString([geom.coordinates])}</coordinates>
+      </Point>`;
+    case 'LineString':
+      return `
+      <LineString>${geometryOptionsToKML(options, hasAltitude(geom), '        ')}
+        <coordinates>${coordString(geom.coordinates)}</coordinates>
+      </LineString>`;
+    case 'Polygon':
+      return polygonToKML(geom.coordinates, options);
+    case 'MultiPoint':
+      return `
+      <MultiGeometry>
+        ${geom.coordinates.map(coordinates => geometryToKML({ type: 'Point', coordinates }, options)).join('')}
+      </MultiGeometry>`;
+    case 'MultiLineString':
+      return `
       <MultiGeometry>
-        ${geom.coordinates.map((polyCoords: Coordinate[][]) => polygonToKML(polyCoords)).join('')}
+        ${geom.coordinates.map(coordinates => geometryToKML({ type: 'LineString', coordinates }, options)).join('')}
       </MultiGeometry>`;
+    case 'MultiPolygon':
+      return `
+      <MultiGeometry>
+        ${geom.coordinates.map(polyCoords => polygonToKML(polyCoords, options)).join('')}
+      </MultiGeometry>`;
+    case 'GeometryCollection':
+      return `
+      <MultiGeometry>
+        ${geom.geometries.map(g => geometryToKML(g, options)).join('')}
+      </MultiGeometry>`;
+    default:
+      return '';
   }
+};
 
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<kml xmlns="http://www.opengis.net/kml/2.2">
-  <Document>
-    <name>${name}</name>
+// KML SimpleField types for each attribute type; numbers are written as double
+const KML_FIELD_TYPES: Record<AttributeType, string> = { string: 'string', number: 'double', boolean: 'bool' };
+
+interface KMLSchema {
+  id: string;
+  fields: [string, AttributeType][];
+}
+
+// Scalar attributes, in property order; name and description have their own elements
+const kmlAttributes = (properties: Record<string, unknown>): [string, unknown][] =>
+  Object.entries(properties).filter(([key, value]) =>
+    !INTERNAL_PROPERTIES.has(key) && !FEATURE_TEXT_PROPERTIES.has(key) &&
+    value !== undefined && value !== null && typeof value !== 'object'
+  );
+
+/**
+ * Collects one Schema per distinct set of attribute names and types, so placemarks
+ * with the same fields share a declaration.
+ */
+const createSchemaRegistry = () => {
+  const schemas = new Map<string, KMLSchema>();
+
+  const schemaFor = (properties: Record<string, unknown>): KMLSchema | null => {
+    const fields = kmlAttributes(properties).map(([key, value]): [string, AttributeType] => [key, attributeType(value)!]);
+    if (fields.length === 0) return null;
+
+    const signature = JSON.stringify(fields);
+    let schema = schemas.get(signature);
+    if (!schema) {
+      schema = { id: `schema-${schemas.size + 1}`, fields };
+      schemas.set(signature, schema);
+    }
+    return schema;
+  };
+
+  const toKML = () => [...schemas.values()].map(schema => `
+    <Schema name="${schema.id}" id="${schema.id}">
+      ${schema.fields.map(([name, type]) => `<SimpleField type="${KML_FIELD_TYPES[type]}" name="${escapeXml(name)}"></SimpleField>`).join('\n      ')}
+    </Schema>`).join('');
+
+  return { schemaFor, toKML };
+};
+
+const simpleDataValue = (value: unknown): string =>
+  typeof value === 'boolean' ? (value ? '1' : '0') : escapeXml(value);
+
+const extendedDataToKML = (properties: Record<string, unknown>, schema: KMLSchema | null): string => {
+  if (!schema) return '';
+
+  return `
+      <ExtendedData>
+        <SchemaData schemaUrl="#${schema.id}">
+          ${schema.fields.map(([key]) => `<SimpleData name="${escapeXml(key)}">${simpleDataValue(properties[key])}</SimpleData>`).join('\n          ')}
+        </SchemaData>
+      </ExtendedData>`;
+};
+
+interface PlacemarkOptions {
+  styleUrl?: string;
+  visible?: boolean;
+  schema?: KMLSchema | null;
+}
+
+const placemarkToKML = (feature: Feature, name: string, options: PlacemarkOptions = {}): string => {
+  const properties = feature.properties || {};
+  const description = properties.description;
+
+  return `
     <Placemark>
-      <name>${name}</name>
-      ${geometryKml}
-    </Placemark>
+      <name>${escapeXml(name)}</name>${options.visible === false ? `
+      <visibility>0</visibility>` : ''}${description ? `
+      <description>${escapeXml(description)}</description>` : ''}${options.styleUrl ? `
+      <styleUrl>${options.styleUrl}</styleUrl>` : ''}${extendedDataToKML(properties, options.schema || null)}
+      ${geometryToKML(feature.geometry, properties.kmlGeometry)}
+    </Placemark>`;
+};
+
+const wrapKMLDocument = (name: string, body: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <name>${escapeXml(name)}</name>${body}
   </Document>
 </kml>`;
+
+/**
+ * Generates a simple KML string from GeoJSON.
+ */
+export const toKML = (geojson: Feature, name: string = 'Boundary'): string => {
+  const schemas = createSchemaRegistry();
+  const placemark = placemarkToKML(geojson, name, { schema: schemas.schemaFor(geojson.properties || {}) });
+  return wrapKMLDocument(name, schemas.toKML() + placemark);
 };
 
 /**
- * Parses KML string to GeoJSON Feature(s)
+ * Converts a CSS hex colour (#rrggbb) and opacity into KML's aabbggrr notation.
  */
-export const parseKML = (kmlString: string): Feature[] => {
-  const parser = new DOMParser();
-  const kmlDoc = parser.parseFromString(kmlString, 'text/xml');
-  
-  // Check for parsing errors
-  const parseError = kmlDoc.querySelector('parsererror');
-  if (parseError) {
-    throw new Error('Invalid KML format');
-  }
+export const toKMLColor = (hex: string, opacity: number = 1): string => {
+  const clean = hex.replace('#', '');
+  const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean.padEnd(6, '0');
+  const alpha = Math.round(Math.max(0, Math.min(1, opacity)) * 255).toString(16).padStart(2, '0');
+  return `${alpha}${full.slice(4, 6)}${full.slice(2, 4)}${full.slice(0, 2)}`.toLowerCase();
+};
 
-  const features: Feature[] = [];
-  const namespace = 'http://www.opengis.net/kml/2.2';
-  
-  // Helper to get text content with namespace
-  const getText = (element: Element | null, tagName: string): string => {
-    if (!element) return '';
-    const el = element.getElementsByTagNameNS(namespace, tagName)[0] || 
-               element.getElementsByTagName(tagName)[0];
-    return el?.textContent?.trim() || '';
+/**
+ * Splits KML's aabbggrr notation into a CSS hex colour and an opacity.
+ */
+export const fromKMLColor = (kmlColor: string): { color: string; opacity: number } | null => {
+  const clean = kmlColor.trim().replace(/^#/, '').toLowerCase();
+  if (!/^[0-9a-f]{8}$/.test(clean)) return null;
+  return {
+    color: `#${clean.slice(6, 8)}${clean.slice(4, 6)}${clean.slice(2, 4)}`,
+    opacity: Math.round((parseInt(clean.slice(0, 2), 16) / 255) * 100) / 100
+  };
+};
+
+// KML has no dashed lines, so `dashed` only survives in GeoJSON and project files.
+// The icon href is written back as imported, so a KMZ export can bundle the image again.
+// A LabelStyle is only written to hide labels; viewers show them by default.
+const styleToKML = (id: string, style: ResolvedStyle, highlight: boolean) => `
+    <Style id="${id}">${style.iconHref ? `
+      <IconStyle>
+        <Icon>
+          <href>${escapeXml(style.iconHref)}</href>
+        </Icon>
+      </IconStyle>` : ''}${style.showLabel === false ? `
+      <LabelStyle>
+        <scale>0</scale>
+      </LabelStyle>` : ''}
+      <LineStyle>
+        <color>${toKMLColor(style.strokeColor)}</color>
+        <width>${highlight ? style.strokeWidth + 1 : style.strokeWidth}</width>
+      </LineStyle>
+      <PolyStyle>
+        <color>${toKMLColor(style.fillColor, highlight ? Math.min(1, style.fillOpacity * 2) : style.fillOpacity)}</color>
+      </PolyStyle>
+    </Style>`;
+
+export interface KMLDocumentOptions {
+  name?: string;
+  /** Folder path for a layer; layers sharing a path prefix are nested in the same Folders. */
+  getFolderPath?: (layer: Layer) => string[];
+}
+
+interface FolderNode {
+  name: string;
+  placemarks: string[];
+  children: FolderNode[];
+}
+
+const folderToKML = (folder: FolderNode, indent: string): string => {
+  const inner = [
+    ...folder.children.map(child => folderToKML(child, indent + '  ')),
+    ...folder.placemarks.map(p => p.replace(/\n/g, `\n${' '.repeat(indent.length - 2)}`))
+  ].join('');
+  return `
+${indent}<Folder>
+${indent}  <name>${escapeXml(folder.name)}</name>${inner}
+${indent}</Folder>`;
+};
+
+/**
+ * Generates a single KML Document containing one Placemark per layer, with a
+ * shared Style/StyleMap per distinct layer style and optional Folder grouping.
+ */
+export const toKMLDocument = (layers: Layer[], options: KMLDocumentOptions = {}): string => {
+  const styleIds = new Map<string, string>();
+  const styles: string[] = [];
+
+  const styleFor = (layer: Layer): string => {
+    const style = getLayerStyle(layer);
+    const key = JSON.stringify(style);
+    const existing = styleIds.get(key);
+    if (existing) return existing;
+
+    const id = `layer-style-${styleIds.size + 1}`;
+    styleIds.set(key, id);
+    styles.push(
+      styleToKML(`${id}-normal`, style, false),
+      styleToKML(`${id}-highlight`, style, true),
+      `
+    <StyleMap id="${id}">
+      <Pair>
+        <key>normal</key>
+        <styleUrl>#${id}-normal</styleUrl>
+      </Pair>
+      <Pair>
+        <key>highlight</key>
+        <styleUrl>#${id}-highlight</styleUrl>
+      </Pair>
+    </StyleMap>`
+    );
+    return id;
   };
 
-  // Helper to parse coordinates string to a single ring
-  const parseCoordinates = (coordString: string): Coordinate[] => {
-    const coords = coordString.trim().split(/\s+/).filter(c => c.trim());
-    const points: Coordinate[] = coords.map(c => {
-      const parts = c.split(',');
-      const lon = parseFloat(parts[0]) || 0;
-      const lat = parseFloat(parts[1]) || 0;
-      return [lon, lat];
+  const schemas = createSchemaRegistry();
+  const root: FolderNode = { name: '', placemarks: [], children: [] };
+
+  layers.forEach(layer => {
+    const placemark = placemarkToKML(layer.feature, layer.name, {
+      styleUrl: `#${styleFor(layer)}`,
+      visible: layer.visible,
+      schema: schemas.schemaFor(layer.feature.properties || {})
     });
-    
-    // Close the ring if not already closed
-    if (points.length > 0) {
-      const first = points[0];
-      const last = points[points.length - 1];
-      if (first[0] !== last[0] || first[1] !== last[1]) {
-        points.push([first[0], first[1]]);
+
+    let folder = root;
+    (options.getFolderPath?.(layer) || []).filter(Boolean).forEach(segment => {
+      let child = folder.children.find(c => c.name === segment);
+      if (!child) {
+        child = { name: segment, placemarks: [], children: [] };
+        folder.children.push(child);
       }
+      folder = child;
+    });
+    folder.placemarks.push(placemark);
+  });
+
+  // KML 2.2 orders a Document's Styles before its Schemas, then its features
+  const body = [
+    ...styles,
+    schemas.toKML(),
+    ...root.children.map(child => folderToKML(child, '    ')),
+    ...root.placemarks
+  ].join('');
+
+  return wrapKMLDocument(options.name || 'Boundaries', body);
+};
+
+const KML_CONTAINERS = new Set(['kml', 'Document', 'Folder']);
+const KML_GEOMETRIES = new Set(['Point', 'LineString', 'LinearRing', 'Polygon', 'MultiGeometry', 'Track', 'MultiTrack']);
+
+// Match on the unprefixed tag name so kml:, gx: and un-namespaced documents all parse the same way
+const localName = (element: XmlElement): string => element.tagName.replace(/^.*:/, '');
+
+const childElements = (element: XmlElement, name?: string): XmlElement[] =>
+  element.children.filter(child => !name || localName(child) === name);
+
+const childText = (element: XmlElement, localName: string): string =>
+  childElements(element, localName)[0]?.textContent.trim() || '';
+
+// Called with each coordinate tuple that couldn't be read, as written in the file
+type SkipHandler = (tuple: string) => void;
+
+// Parses a KML coordinates string ("lon,lat[,alt] lon,lat[,alt] ...")
+// Tuples that don't parse are dropped rather than turned into 0,0 (Null Island), and passed to `onSkip`
+const parseCoordinates = (coordString: string, onSkip: SkipHandler): Coordinate[] =>
+  coordString.trim().split(/\s+/).filter(c => c.trim()).flatMap((tuple): Coordinate[] => {
+    const [lon, lat, alt] = tuple.split(',').map(part => parseFloat(part));
+    if (!Number.isFinite(lon) || !Number.isFinite(lat)) {
+      onSkip(tuple);
+      return [];
+    }
+    return [Number.isFinite(alt) ? [lon, lat, alt] : [lon, lat]];
+  });
+
+const closeRing = (points: Coordinate[]): Coordinate[] => {
+  if (points.length > 0) {
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      return [...points, [first[0], first[1]]];
+    }
+  }
+  return points;
+};
+
+const parseRing = (boundary: XmlElement | undefined, onSkip: SkipHandler): Coordinate[] | null => {
+  const ring = boundary && childElements(boundary, 'LinearRing')[0];
+  const coords = ring ? childText(ring, 'coordinates') : '';
+  return coords ? closeRing(parseCoordinates(coords, onSkip)) : null;
+};
+
+/**
+ * Converts a single KML geometry element into one or more GeoJSON geometries.
+ * MultiGeometry and gx:MultiTrack are flattened into their members.
+ */
+const parseGeometryElement = (element: XmlElement, onSkip: SkipHandler): Geometry[] => {
+  switch (localName(element)) {
+    case 'Point': {
+      const coords = parseCoordinates(childText(element, 'coordinates'), onSkip);
+      return coords.length > 0 ? [{ type: 'Point', coordinates: coords[0] }] : [];
+    }
+    case 'LineString':
+    case 'LinearRing': {
+      const coords = parseCoordinates(childText(element, 'coordinates'), onSkip);
+      return coords.length > 1 ? [{ type: 'LineString', coordinates: coords }] : [];
+    }
+    case 'Track': {
+      // gx:coord is space separated: "lon lat alt", one per element
+      const coords = childElements(element, 'coord').flatMap(coord => parseCoordinates(coord.textContent.trim().replace(/\s+/g, ','), onSkip));
+      return coords.length > 1 ? [{ type: 'LineString', coordinates: coords }] : [];
+    }
+    case 'Polygon': {
+      const outer = parseRing(childElements(element, 'outerBoundaryIs')[0], onSkip);
+      if (!outer) return [];
+      const holes = childElements(element, 'innerBoundaryIs')
+        .map(boundary => parseRing(boundary, onSkip))
+        .filter((ring): ring is Coordinate[] => ring !== null);
+      return [{ type: 'Polygon', coordinates: [outer, ...holes] }];
     }
-    
-    return points;
+    case 'MultiGeometry':
+    case 'MultiTrack':
+      return childElements(element)
+        .filter(child => KML_GEOMETRIES.has(localName(child)))
+        .flatMap(child => parseGeometryElement(child, onSkip));
+    default:
+      return [];
+  }
+};
+
+const parseBoolean = (text: string): boolean => text === '1' || text === 'true';
+
+/**
+ * Reads altitudeMode (or gx:altitudeMode), extrude and tessellate, taking the first
+ * value found in the Placemark's geometries.
+ */
+const parseGeometryOptions = (elements: XmlElement[]): KMLGeometryOptions => {
+  const options: KMLGeometryOptions = {};
+  const visit = (element: XmlElement) => {
+    const altitudeMode = childText(element, 'altitudeMode');
+    const extrude = childText(element, 'extrude');
+    const tessellate = childText(element, 'tessellate');
+    if (altitudeMode && options.altitudeMode === undefined) options.altitudeMode = altitudeMode;
+    if (extrude && options.extrude === undefined) options.extrude = parseBoolean(extrude);
+    if (tessellate && options.tessellate === undefined) options.tessellate = parseBoolean(tessellate);
+    childElements(element).filter(child => KML_GEOMETRIES.has(localName(child))).forEach(visit);
   };
+  elements.forEach(visit);
+  return options;
+};
 
-  // Process Placemarks
-  const placemarks = kmlDoc.getElementsByTagNameNS(namespace, 'Placemark') || 
-                     kmlDoc.getElementsByTagName('Placemark');
-  
-  for (let i = 0; i < placemarks.length; i++) {
-    const placemark = placemarks[i];
-    const name = getText(placemark, 'name') || `Placemark ${i + 1}`;
-    
-    // Check for Polygon
-    const polygon = placemark.getElementsByTagNameNS(namespace, 'Polygon')[0] ||
-                    placemark.getElementsByTagName('Polygon')[0];
-    
-    if (polygon) {
-      const outerRing = polygon.getElementsByTagNameNS(namespace, 'outerBoundaryIs')[0] ||
-                        polygon.getElementsByTagName('outerBoundaryIs')[0];
-      const innerRings = polygon.getElementsByTagNameNS(namespace, 'innerBoundaryIs') ||
-                         polygon.getElementsByTagName('innerBoundaryIs');
-      
-      const outerCoords = getText(outerRing, 'coordinates');
-      if (outerCoords) {
-        const rings: Coordinate[][] = [parseCoordinates(outerCoords)];
-        
-        // Add inner rings (holes)
-        for (let j = 0; j < innerRings.length; j++) {
-          const innerCoords = getText(innerRings[j], 'coordinates');
-          if (innerCoords) {
-            rings.push(parseCoordinates(innerCoords));
-          }
-        }
-        
-        const feature: Feature = {
-          type: 'Feature',
-          properties: {
-            name,
-            source: 'kml'
-          },
-          geometry: {
-            type: 'Polygon',
-            coordinates: rings
-          }
-        };
-        features.push(feature);
-      }
+// SimpleField types read back as numbers; anything else stays text, apart from bool
+const KML_NUMERIC_TYPES = new Set(['int', 'uint', 'short', 'ushort', 'float', 'double']);
+
+type SchemaFields = Map<string, string>;
+
+/**
+ * Field types of every Schema in the document, by id. Schemas may be declared
+ * anywhere in the document, not only before the placemarks using them.
+ */
+const collectSchemas = (element: XmlElement, schemas = new Map<string, SchemaFields>()): Map<string, SchemaFields> => {
+  childElements(element).forEach(child => {
+    if (localName(child) === 'Schema') {
+      const fields: SchemaFields = new Map(childElements(child, 'SimpleField')
+        .map(field => [field.attributes.name, field.attributes.type] as [string, string])
+        .filter(([name]) => name));
+      if (child.attributes.id) schemas.set(child.attributes.id, fields);
+    } else {
+      collectSchemas(child, schemas);
     }
-    
-    // Check for MultiGeometry
-    const multiGeometry = placemark.getElementsByTagNameNS(namespace, 'MultiGeometry')[0] ||
-                          placemark.getElementsByTagName('MultiGeometry')[0];
-    
-    if (multiGeometry) {
-      const polygons = multiGeometry.getElementsByTagNameNS(namespace, 'Polygon') ||
-                       multiGeometry.getElementsByTagName('Polygon');
-      
-      if (polygons.length > 0) {
-        const multiPolyCoords: Coordinate[][][] = [];
-        
-        for (let j = 0; j < polygons.length; j++) {
-          const poly = polygons[j];
-          const outerRing = poly.getElementsByTagNameNS(namespace, 'outerBoundaryIs')[0] ||
-                            poly.getElementsByTagName('outerBoundaryIs')[0];
-          const innerRings = poly.getElementsByTagNameNS(namespace, 'innerBoundaryIs') ||
-                             poly.getElementsByTagName('innerBoundaryIs');
-          
-          const outerCoords = getText(outerRing, 'coordinates');
-          if (outerCoords) {
-            const rings: Coordinate[][] = [parseCoordinates(outerCoords)];
-            
-            // Add inner rings
-            for (let k = 0; k < innerRings.length; k++) {
-              const innerCoords = getText(innerRings[k], 'coordinates');
-              if (innerCoords) {
-                rings.push(parseCoordinates(innerCoords));
-              }
-            }
-            
-            multiPolyCoords.push(rings);
-          }
-        }
-        
-        if (multiPolyCoords.length > 0) {
-          const feature: Feature = {
-            type: 'Feature',
-            properties: {
-              name,
-              source: 'kml'
-            },
-            geometry: {
-              type: 'MultiPolygon',
-              coordinates: multiPolyCoords
-            }
-          };
-          features.push(feature);
-        }
+  });
+  return schemas;
+};
+
+const parseSimpleData = (text: string, type: string | undefined): string | number | boolean => {
+  if (type && KML_NUMERIC_TYPES.has(type)) {
+    const number = parseFloat(text);
+    return Number.isFinite(number) ? number : text;
+  }
+  return type === 'bool' ? parseBoolean(text) : text;
+};
+
+/**
+ * Reads a Placemark's ExtendedData: untyped Data values as text, and SchemaData
+ * values typed by their Schema's SimpleFields.
+ */
+const parseExtendedData = (placemark: XmlElement, schemas: Map<string, SchemaFields>): Record<string, unknown> => {
+  const attributes: Record<string, unknown> = {};
+  const set = (name: string | undefined, value: unknown) => {
+    if (name && !INTERNAL_PROPERTIES.has(name)) attributes[name] = value;
+  };
+
+  childElements(placemark, 'ExtendedData').forEach(extendedData => {
+    childElements(extendedData, 'Data').forEach(data => set(data.attributes.name, childText(data, 'value')));
+    childElements(extendedData, 'SchemaData').forEach(schemaData => {
+      // schemaUrl is "#id", or "file.kml#id" for a schema in another file, which we can't type
+      const url = schemaData.attributes.schemaUrl || '';
+      const fields = schemas.get(url.slice(url.indexOf('#') + 1));
+      childElements(schemaData, 'SimpleData').forEach(simpleData => {
+        const name = simpleData.attributes.name;
+        set(name, parseSimpleData(simpleData.textContent.trim(), fields?.get(name)));
+      });
+    });
+  });
+  return attributes;
+};
+
+/**
+ * A Style element as simplestyle properties (see styleUtils), with only the values
+ * the Style sets.
+ */
+const parseStyle = (style: XmlElement): Record<string, unknown> => {
+  const properties: Record<string, unknown> = {};
+  const line = childElements(style, 'LineStyle')[0];
+  const poly = childElements(style, 'PolyStyle')[0];
+  const label = childElements(style, 'LabelStyle')[0];
+  const icon = childElements(style, 'IconStyle')[0];
+
+  const lineColor = line && fromKMLColor(childText(line, 'color'));
+  if (lineColor) properties.stroke = lineColor.color;
+  const width = line && parseFloat(childText(line, 'width'));
+  if (width !== undefined && Number.isFinite(width)) properties['stroke-width'] = width;
+
+  const fillColor = poly && fromKMLColor(childText(poly, 'color'));
+  if (fillColor) {
+    properties.fill = fillColor.color;
+    properties['fill-opacity'] = fillColor.opacity;
+  }
+  if (poly && childText(poly, 'fill') && !parseBoolean(childText(poly, 'fill'))) properties['fill-opacity'] = 0;
+
+  const scale = label && parseFloat(childText(label, 'scale'));
+  if (scale !== undefined && Number.isFinite(scale)) properties['show-label'] = scale > 0;
+
+  const iconImage = icon && childElements(icon, 'Icon')[0];
+  const href = iconImage && childText(iconImage, 'href');
+  if (href) properties['icon-href'] = href;
+  return properties;
+};
+
+/**
+ * Shared Styles and StyleMaps of the document, returned as a lookup from a styleUrl
+ * to the style it names. StyleMaps resolve to their "normal" style.
+ */
+const collectStyles = (root: XmlElement): (styleUrl: string) => Record<string, unknown> => {
+  const styles = new Map<string, Record<string, unknown>>();
+  const styleMaps = new Map<string, string>();
+
+  const visit = (element: XmlElement) => childElements(element).forEach(child => {
+    const id = child.attributes.id;
+    switch (localName(child)) {
+      case 'Style':
+        if (id) styles.set(id, parseStyle(child));
+        break;
+      case 'StyleMap': {
+        const normal = childElements(child, 'Pair').find(pair => childText(pair, 'key') === 'normal');
+        const inline = normal && childElements(normal, 'Style')[0];
+        if (id && inline) styles.set(id, parseStyle(inline));
+        else if (id && normal) styleMaps.set(id, childText(normal, 'styleUrl'));
+        break;
       }
+      case 'Placemark':
+        break;
+      default:
+        visit(child);
     }
-  }
-  
-  // If no Placemarks found, check Document level
-  if (features.length === 0) {
-    const document = kmlDoc.getElementsByTagNameNS(namespace, 'Document')[0] ||
-                     kmlDoc.getElementsByTagName('Document')[0];
-    if (document) {
-      // Recursively parse Document's children
-      const docPlacemarks = document.getElementsByTagNameNS(namespace, 'Placemark') ||
-                            document.getElementsByTagName('Placemark');
-      // This would be handled by the above loop, but if Document wraps them differently...
+  });
+  visit(root);
+
+  // A StyleMap may point at another StyleMap; the depth limit guards against cycles
+  const resolve = (styleUrl: string, depth = 0): Record<string, unknown> => {
+    const id = styleUrl.slice(styleUrl.indexOf('#') + 1);
+    const style = styles.get(id);
+    if (style) return style;
+    const next = styleMaps.get(id);
+    return next && depth < 5 ? resolve(next, depth + 1) : {};
+  };
+  return resolve;
+};
+
+/**
+ * Collapses a Placemark's geometries into the simplest equivalent GeoJSON geometry.
+ */
+const combineGeometries = (geometries: Geometry[]): Geometry | null => {
+  if (geometries.length === 0) return null;
+  if (geometries.length === 1) return geometries[0];
+
+  const type = geometries[0].type;
+  if (geometries.every(g => g.type === type)) {
+    if (type === 'Point') {
+      return { type: 'MultiPoint', coordinates: geometries.map(g => (g as PointGeometry).coordinates) };
     }
+    if (type === 'LineString') {
+      return { type: 'MultiLineString', coordinates: geometries.map(g => (g as LineStringGeometry).coordinates) };
+    }
+    if (type === 'Polygon') {
+      return { type: 'MultiPolygon', coordinates: geometries.map(g => (g as PolygonGeometry).coordinates) };
+    }
+  }
+  return { type: 'GeometryCollection', geometries };
+};
+
+/**
+ * Parses KML string to GeoJSON Feature(s).
+ * Walks Documents and Folders recursively; each feature keeps the names of the
+ * Folders it was found in as properties.folderPath, its ExtendedData as further
+ * properties and its Style as simplestyle properties.
+ */
+export const parseKML = (kmlString: string): Feature[] => {
+  let root: XmlElement;
+  try {
+    root = parseXML(kmlString);
+  } catch (error) {
+    throw new Error(`Invalid KML format: ${error instanceof Error ? error.message : error}`);
   }
+
+  const features: Feature[] = [];
+  const schemas = collectSchemas(root);
+  const resolveStyle = collectStyles(root);
+
+  const visit = (element: XmlElement, folderPath: string[]) => {
+    childElements(element).forEach(child => {
+      if (localName(child) === 'Placemark') {
+        const geometryElements = childElements(child).filter(el => KML_GEOMETRIES.has(localName(el)));
+        const skippedCoordinates: string[] = [];
+        const geometry = combineGeometries(geometryElements.flatMap(element => parseGeometryElement(element, tuple => skippedCoordinates.push(tuple))));
+        if (!geometry) return;
+
+        const description = childText(child, 'description');
+        const kmlGeometry = parseGeometryOptions(geometryElements);
+        const styleUrl = childText(child, 'styleUrl');
+        const inlineStyle = childElements(child, 'Style')[0];
+        features.push({
+          type: 'Feature',
+          properties: {
+            ...parseExtendedData(child, schemas),
+            ...(styleUrl ? resolveStyle(styleUrl) : {}),
+            ...(inlineStyle ? parseStyle(inlineStyle) : {}),
+            name: childText(child, 'name') || `Placemark ${features.length + 1}`,
+            ...(description ? { description } : {}),
+            ...(folderPath.length > 0 ? { folderPath } : {}),
+            ...(Object.keys(kmlGeometry).length > 0 ? { kmlGeometry } : {}),
+            ...(skippedCoordinates.length > 0 ? { skippedCoordinates } : {})
+          },
+          geometry
+        });
+      } else if (localName(child) === 'Folder') {
+        visit(child, [...folderPath, childText(child, 'name') || 'Untitled Folder']);
+      } else if (KML_CONTAINERS.has(localName(child))) {
+        visit(child, folderPath);
+      }
+    });
+  };
+
+  visit(root, []);
   
   return features;
 };
@@ -0,0 +1,100 @@
+import type { Geometry, Layer } from '../types';
+import type { ProjectState } from './projectUtils';
+
+// Bounds for the undo stack: whichever limit is hit first drops the oldest steps
+export const MAX_HISTORY_ENTRIES = 100;
+export const MAX_HISTORY_COORDINATES = 1_000_000;
+// Checkpoints with the same key closer together than this merge into one undo step
+export const COALESCE_WINDOW_MS = 1000;
+
+interface HistoryEntry {
+  state: ProjectState;
+  /** Coordinates this entry keeps alive that its older neighbour doesn't share. */
+  weight: number;
+  key?: string;
+  time: number;
+}
+
+export interface History {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const createHistory = (): History => ({ past: [], future: [] });
+
+export const countCoordinates = (geometry: Geometry | null | undefined): number => {
+  if (!geometry) return 0;
+  if (geometry.type === 'GeometryCollection') {
+    return geometry.geometries.reduce((sum, g) => sum + countCoordinates(g), 0);
+  }
+  // Nested arrays bottom out in [lon, lat] pairs
+  const count = (value: unknown): number =>
+    Array.isArray(value) && Array.isArray(value[0])
+      ? value.reduce((sum: number, item: unknown) => sum + count(item), 0)
+      : 1;
+  return count(geometry.coordinates);
+};
+
+// Layers are updated immutably, so unchanged features are shared between snapshots
+const snapshotWeight = (state: ProjectState, previous?: ProjectState): number => {
+  const shared = new Set<Layer['feature']>(previous?.layers.map(l => l.feature) || []);
+  return state.layers
+    .filter(layer => !shared.has(layer.feature))
+    .reduce((sum, layer) => sum + countCoordinates(layer.feature.geometry), 0);
+};
+
+const trim = (past: HistoryEntry[]): HistoryEntry[] => {
+  let total = past.reduce((sum, entry) => sum + entry.weight, 0);
+  let start = 0;
+  while (start < past.length - 1 && (past.length - start > MAX_HISTORY_ENTRIES || total > MAX_HISTORY_COORDINATES)) {
+    total -= past[start].weight;
+    start++;
+  }
+  return start > 0 ? past.slice(start) : past;
+};
+
+/**
+ * Records the state as it was before a change. A checkpoint with the same key as
+ * the previous one within the coalesce window is dropped, so a burst of drags on
+ * one layer undoes in a single step.
+ */
+export const checkpoint = (history: History, state: ProjectState, key?: string): History => {
+  const now = Date.now();
+  const last = history.past[history.past.length - 1];
+
+  if (key && last?.key === key && now - last.time < COALESCE_WINDOW_MS) {
+    return { past: [...history.past.slice(0, -1), { ...last, time: now }], future: [] };
+  }
+
+  const entry: HistoryEntry = { state, weight: snapshotWeight(state, last?.state), key, time: now };
+  return { past: trim([...history.past, entry]), future: [] };
+};
+
+/**
+ * Steps back one change. Returns the state to apply, or null when there is nothing to undo.
+ */
+export const undo = (history: History, current: ProjectState): { history: History; state: ProjectState } | null => {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return null;
+
+  const entry: HistoryEntry = { state: current, weight: snapshotWeight(current, previous.state), time: Date.now() };
+  return {
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    state: previous.state
+  };
+};
+
+/**
+ * Re-applies the most recently undone change.
+ */
+export const redo = (history: History, current: ProjectState): { history: History; state: ProjectState } | null => {
+  const next = history.future[0];
+  if (!next) return null;
+
+  const last = history.past[history.past.length - 1];
+  const entry: HistoryEntry = { state: current, weight: snapshotWeight(current, last?.state), time: Date.now() };
+  return {
+    history: { past: trim([...history.past, entry]), future: history.future.slice(1) },
+    state: next.state
+  };
+};
@@ -0,0 +1,177 @@
+import { feature as topojsonFeature } from 'topojson-client';
+import type { Topology } from 'topojson-specification';
+import type { Feature, Geometry } from '../types';
+import { parseKML } from './geometryUtils';
+import { isKMZ, readKMZ } from './kmzUtils';
+import { isShapefileZip, readShapefile, readShapefileZip } from './shapefileUtils';
+import { looksLikeWKBHex, looksLikeWKT, parseWKB, parseWKT } from './wktUtils';
+
+export type ImportFormat = 'kml' | 'kmz' | 'geojson' | 'topojson' | 'wkt' | 'wkb' | 'shapefile';
+
+export interface ImportResult {
+  format: ImportFormat;
+  features: Feature[];
+  /** Files bundled alongside the document (KMZ icons and overlays). */
+  assets?: Record<string, Blob>;
+}
+
+const GEOJSON_GEOMETRY_TYPES = new Set([
+  'Point', 'MultiPoint', 'LineString', 'MultiLineString', 'Polygon', 'MultiPolygon', 'GeometryCollection'
+]);
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  kml: 'kml',
+  kmz: 'kmz',
+  geojson: 'geojson',
+  json: 'geojson',
+  topojson: 'topojson',
+  wkt: 'wkt',
+  wkb: 'wkb',
+  zip: 'shapefile',
+  shp: 'shapefile'
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(EXTENSION_FORMATS).map(ext => `.${ext}`);
+
+const baseName = (fileName?: string) => fileName?.replace(/\.[^.]+$/, '') || 'Imported';
+
+/**
+ * Works out the format of a text payload from its content alone.
+ */
+export const detectTextFormat = (text: string): ImportFormat | null => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('<')) return 'kml';
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(trimmed)?.type === 'Topology' ? 'topojson' : 'geojson';
+    } catch {
+      return null;
+    }
+  }
+  if (looksLikeWKT(trimmed)) return 'wkt';
+  if (looksLikeWKBHex(trimmed)) return 'wkb';
+  return null;
+};
+
+/**
+ * Normalises any GeoJSON object (Feature, FeatureCollection, bare geometry or an
+ * array of those) into a list of Features.
+ */
+export const normalizeGeoJSON = (data: unknown, fallbackName: string = 'Imported'): Feature[] => {
+  if (Array.isArray(data)) {
+    return data.flatMap(item => normalizeGeoJSON(item, fallbackName));
+  }
+  if (!data || typeof data !== 'object') {
+    throw new Error('Not a GeoJSON object');
+  }
+
+  const object = data as {
+    type?: string;
+    features?: unknown[];
+    properties?: Record<string, unknown> | null;
+    geometry?: Geometry | null;
+  };
+
+  if (object.type === 'FeatureCollection') {
+    return (object.features || []).flatMap(f => normalizeGeoJSON(f, fallbackName));
+  }
+  if (object.type === 'Feature') {
+    if (!object.geometry) return [];
+    return [{
+      type: 'Feature',
+      properties: { ...(object.properties || {}) },
+      geometry: object.geometry
+    }];
+  }
+  if (object.type && GEOJSON_GEOMETRY_TYPES.has(object.type)) {
+    return [{ type: 'Feature', properties: { name: fallbackName }, geometry: data as Geometry }];
+  }
+  throw new Error(`Unsupported GeoJSON type "${object.type}"`);
+};
+
+/**
+ * Converts every object in a TopoJSON topology to GeoJSON Features, keeping the
+ * object name as a folder.
+ */
+export const parseTopoJSON = (topology: Topology): Feature[] =>
+  Object.entries(topology.objects).flatMap(([objectName, object]) =>
+    normalizeGeoJSON(topojsonFeature(topology, object), objectName).map(feature => ({
+      ...feature,
+      properties: { ...feature.properties, folderPath: [objectName] }
+    }))
+  );
+
+const geometriesToFeatures = (geometries: Geometry[], name: string): Feature[] =>
+  geometries.map((geometry, index) => ({
+    type: 'Feature',
+    properties: { name: geometries.length > 1 ? `${name} ${index + 1}` : name },
+    geometry
+  }));
+
+/**
+ * Parses text in any supported format. The format is taken from the hint when
+ * given, otherwise detected from the content.
+ */
+export const parseImportText = (text: string, name: string = 'Pasted', hint?: ImportFormat): ImportResult => {
+  const format = hint && hint !== 'kmz' && hint !== 'shapefile' ? hint : detectTextFormat(text);
+
+  switch (format) {
+    case 'kml':
+      return { format, features: parseKML(text) };
+    case 'geojson': {
+      const data = JSON.parse(text);
+      // .json files may still hold TopoJSON
+      if (data?.type === 'Topology') return { format: 'topojson', features: parseTopoJSON(data) };
+      return { format, features: normalizeGeoJSON(data, name) };
+    }
+    case 'topojson':
+      return { format, features: parseTopoJSON(JSON.parse(text)) };
+    case 'wkt':
+      return { format, features: geometriesToFeatures(parseWKT(text), name) };
+    case 'wkb':
+      return {
+        format,
+        features: geometriesToFeatures(
+          text.trim().split(/\s+/).map(hex => parseWKB(hex)),
+          name
+        )
+      };
+    default:
+      throw new Error('Unrecognised format. Supported: KML, KMZ, GeoJSON, TopoJSON, WKT, WKB and zipped Shapefiles.');
+  }
+};
+
+/**
+ * Reads a dropped or uploaded file, detecting the format from its extension and content.
+ */
+export const importFile = async (file: File): Promise<ImportResult> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const hint: ImportFormat | undefined = EXTENSION_FORMATS[extension];
+  const name = baseName(file.name);
+
+  if (extension === 'shp') {
+    return { format: 'shapefile', features: await readShapefile(name, await file.arrayBuffer()) };
+  }
+  if (hint !== 'kmz' && await isShapefileZip(file)) {
+    return { format: 'shapefile', features: await readShapefileZip(file) };
+  }
+
+  // A .zip without a shapefile may still be a KMZ, which is a zip around a KML document
+  if (hint === 'kmz' || await isKMZ(file)) {
+    const { kml, assets } = await readKMZ(file).catch(error => {
+      if (hint === 'shapefile') throw new Error('Zip archive contains neither a .shp file nor a .kml document');
+      throw error;
+    });
+    return { format: 'kmz', features: parseKML(kml), assets };
+  }
+
+  if (hint === 'wkb') {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    // Binary WKB starts with a byte-order marker; anything else is hex text
+    if (bytes[0] === 0 || bytes[0] === 1) {
+      return { format: 'wkb', features: geometriesToFeatures([parseWKB(bytes)], name) };
+    }
+  }
+
+  return parseImportText(await file.text(), name, hint);
+};
@@ -0,0 +1,85 @@
+import JSZip from 'jszip';
+
+export interface KMZContents {
+  kml: string;
+  /** Every non-KML entry in the archive (icons, overlays), keyed by its path inside the zip. */
+  assets: Record<string, Blob>;
+}
+
+/**
+ * Checks whether a file looks like a KMZ, by extension or by the zip magic bytes.
+ */
+export const isKMZ = async (file: Blob & { name?: string }): Promise<boolean> => {
+  if (file.name?.toLowerCase().endsWith('.kmz')) return true;
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return header[0] === 0x50 && header[1] === 0x4b && header[2] === 0x03 && header[3] === 0x04;
+};
+
+/**
+ * Unzips a KMZ and returns its main document plus referenced assets.
+ * Google Earth reads doc.kml, falling back to the first .kml at the archive root.
+ */
+export const readKMZ = async (file: Blob): Promise<KMZContents> => {
+  const zip = await JSZip.loadAsync(file);
+  const entries = Object.values(zip.files).filter(entry => !entry.dir);
+
+  const kmlEntries = entries.filter(entry => entry.name.toLowerCase().endsWith('.kml'));
+  const main = kmlEntries.find(entry => entry.name.toLowerCase() === 'doc.kml') ||
+               kmlEntries.find(entry => !entry.name.includes('/')) ||
+               kmlEntries[0];
+
+  if (!main) {
+    throw new Error('KMZ archive does not contain a KML document');
+  }
+
+  const assets: Record<string, Blob> = {};
+  for (const entry of entries) {
+    if (entry === main || entry.name.toLowerCase().endsWith('.kml')) continue;
+    assets[entry.name] = await entry.async('blob');
+  }
+
+  return { kml: await main.async('string'), assets };
+};
+
+/**
+ * Lists the local files a KML references through <href>, ignoring remote URLs.
+ */
+export const getReferencedAssets = (kml: string): string[] => {
+  const hrefs = new Set<string>();
+  const pattern = /<href>\s*([^<]+?)\s*<\/href>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(kml)) !== null) {
+    const href = match[1].replace(/&amp;/g, '&');
+    if (!/^[a-z][a-z0-9+.-]*:/i.test(href)) hrefs.add(href);
+  }
+  return [...hrefs];
+};
+
+/**
+ * Packages a KML document as a KMZ, bundling every referenced asset that is available.
+ */
+export const toKMZ = async (kml: string, assets: Record<string, Blob> = {}): Promise<Blob> => {
+  const zip = new JSZip();
+  // doc.kml must be the first entry for older Google Earth versions
+  zip.file('doc.kml', kml);
+
+  getReferencedAssets(kml).forEach(path => {
+    const asset = assets[path];
+    if (asset) zip.file(path, asset);
+  });
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.google-earth.kmz',
+    compression: 'DEFLATE'
+  });
+};
+
+/**
+ * Packs text files, keyed by their name in the archive, into a zip.
+ */
+export const zipFiles = (files: Record<string, string>): Promise<Blob> => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([name, content]) => zip.file(name, content));
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip', compression: 'DEFLATE' });
+};
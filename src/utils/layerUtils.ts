@@ -0,0 +1,98 @@
+import type { Layer } from '../types';
+
+export const LAYER_SOURCES: { value: Layer['source']; label: string }[] = [
+  { value: 'search', label: 'Search Results' },
+  { value: 'upload', label: 'Uploaded' },
+  { value: 'shapefile', label: 'Shapefiles' },
+  { value: 'drawn', label: 'Drawn' },
+  { value: 'operation', label: 'Operations' }
+];
+
+/**
+ * The group a layer sits in, outermost first. Groups are exported as nested KML
+ * Folders; imported Folders become groups.
+ */
+export const folderPathOf = (layer?: Layer): string[] => layer?.feature.properties.folderPath || [];
+
+const startsWith = (path: string[], prefix: string[]) =>
+  prefix.length <= path.length && prefix.every((name, i) => path[i] === name);
+
+const withFolderPath = (layer: Layer, path: string[]): Layer => {
+  const properties = Object.fromEntries(Object.entries(layer.feature.properties).filter(([key]) => key !== 'folderPath'));
+  return {
+    ...layer,
+    feature: { ...layer.feature, properties: path.length > 0 ? { ...properties, folderPath: path } : properties }
+  };
+};
+
+/**
+ * Renames a layer; the feature's name property follows, since exports read it.
+ */
+export const renameLayer = (layer: Layer, name: string): Layer => ({
+  ...layer,
+  name,
+  feature: { ...layer.feature, properties: { ...layer.feature.properties, name } }
+});
+
+/**
+ * Moves layers, keeping their relative order, to just before `beforeId` (or to the end
+ * when null). With `folderPath` they also move into that group. Dropping layers on one
+ * of themselves leaves them in place.
+ */
+export const moveLayers = (layers: Layer[], ids: Set<string>, beforeId: string | null, folderPath?: string[]): Layer[] => {
+  if (beforeId !== null && ids.has(beforeId)) {
+    return folderPath ? layers.map(l => (ids.has(l.id) ? withFolderPath(l, folderPath) : l)) : layers;
+  }
+
+  const moved = layers.filter(l => ids.has(l.id)).map(l => (folderPath ? withFolderPath(l, folderPath) : l));
+  const rest = layers.filter(l => !ids.has(l.id));
+  const index = beforeId === null ? rest.length : rest.findIndex(l => l.id === beforeId);
+  if (index === -1) return layers;
+  return [...rest.slice(0, index), ...moved, ...rest.slice(index)];
+};
+
+// Deepest group every given layer is inside
+const commonFolderPath = (layers: Layer[]): string[] => {
+  const paths = layers.map(folderPathOf);
+  const common: string[] = [];
+  for (let i = 0; paths.length > 0 && paths.every(path => i < path.length && path[i] === paths[0][i]); i++) {
+    common.push(paths[0][i]);
+  }
+  return common;
+};
+
+/**
+ * Puts layers into a new group inside the deepest group they share, gathered at the
+ * position of the first of them so the group stays contiguous.
+ */
+export const groupLayers = (layers: Layer[], ids: Set<string>, name: string): Layer[] => {
+  const selected = layers.filter(l => ids.has(l.id));
+  if (selected.length === 0) return layers;
+
+  const first = layers.findIndex(l => ids.has(l.id));
+  const anchor = layers.slice(first).find(l => !ids.has(l.id));
+  return moveLayers(layers, ids, anchor?.id ?? null, [...commonFolderPath(selected), name]);
+};
+
+/**
+ * Moves layers one group level up.
+ */
+export const ungroupLayers = (layers: Layer[], ids: Set<string>): Layer[] =>
+  layers.map(l => (ids.has(l.id) && folderPathOf(l).length > 0 ? withFolderPath(l, folderPathOf(l).slice(0, -1)) : l));
+
+/**
+ * Renames the group at `path` (the last name in it) for every layer inside it,
+ * including layers in nested groups.
+ */
+export const renameGroup = (layers: Layer[], path: string[], name: string): Layer[] =>
+  layers.map(l => {
+    const current = folderPathOf(l);
+    if (!startsWith(current, path)) return l;
+    return withFolderPath(l, [...path.slice(0, -1), name, ...current.slice(path.length)]);
+  });
+
+/**
+ * Layers whose group is `path` or nested inside it.
+ */
+export const layersInGroup = (layers: Layer[], path: string[]): Layer[] =>
+  layers.filter(l => startsWith(folderPathOf(l), path));
@@ -0,0 +1,188 @@
+import type { EditMode, Layer, ProcessingParams } from '../types';
+import type { BatchItem } from './batchUtils';
+import { DEFAULT_PROCESSING_PARAMS } from './geometryUtils';
+
+export const PROJECT_FORMAT = 'kmlbuilder-project';
+export const PROJECT_VERSION = 4;
+export const PROJECT_EXTENSION = '.kmlbuilder.json';
+
+export interface ProjectState {
+  layers: Layer[];
+  selectedLayerId: string | null;
+  /** Mode and parameters given to new layers; each layer keeps its own in `processing`. */
+  editMode: EditMode;
+  processingParams: ProcessingParams;
+}
+
+export interface ProjectFile extends ProjectState {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+}
+
+type Migration = (project: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Upgrades a project from the version it is keyed by to the next one.
+ * Add an entry here whenever the Layer shape or project fields change.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v0: unversioned exports, either a bare layer array or { layers } with optional fields
+  0: project => {
+    const layers = (Array.isArray(project.layers) ? project.layers : []) as Partial<Layer>[];
+    return {
+      ...project,
+      layers: layers.map((layer, index) => ({
+        ...layer,
+        id: layer.id || `layer-${Date.now()}-${index}`,
+        name: layer.name || layer.feature?.properties?.name || `Layer ${index + 1}`,
+        color: layer.color || '#3b82f6',
+        visible: layer.visible ?? true,
+        editable: layer.editable ?? true,
+        source: layer.source || 'upload'
+      })),
+      selectedLayerId: project.selectedLayerId ?? null,
+      editMode: project.editMode || 'accurate',
+      version: 1
+    };
+  },
+  // v1: processing parameters were fixed
+  1: project => ({
+    ...project,
+    processingParams: DEFAULT_PROCESSING_PARAMS,
+    version: 2
+  }),
+  // v2: one global mode applied to every layer with source data
+  2: project => ({
+    ...project,
+    layers: (project.layers as Layer[]).map(layer => layer.feature.properties.originalGeoJson
+      ? { ...layer, processing: { mode: project.editMode as EditMode, params: project.processingParams as ProcessingParams } }
+      : layer),
+    version: 3
+  }),
+  // v3: processing always dropped altitude; keep saved layers that way when reprocessed
+  3: project => ({
+    ...project,
+    layers: (project.layers as Layer[]).map(layer => layer.processing
+      ? { ...layer, processing: { ...layer.processing, params: { ...layer.processing.params, flatten: true } } }
+      : layer),
+    version: 4
+  })
+};
+
+/**
+ * Builds the versioned project document for the current app state.
+ */
+export const createProjectFile = (state: ProjectState): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  layers: state.layers,
+  selectedLayerId: state.selectedLayerId,
+  editMode: state.editMode,
+  processingParams: state.processingParams
+});
+
+/**
+ * Reads a project document of any known version, migrating it to the current one.
+ */
+export const migrateProject = (data: unknown): ProjectState => {
+  let project: Record<string, unknown>;
+  if (Array.isArray(data)) {
+    project = { layers: data, version: 0 };
+  } else if (data && typeof data === 'object') {
+    project = { ...(data as Record<string, unknown>) };
+  } else {
+    throw new Error('Not a project file');
+  }
+
+  if (project.format !== undefined && project.format !== PROJECT_FORMAT) {
+    throw new Error('Not a KML Builder project file');
+  }
+
+  let version = typeof project.version === 'number' ? project.version : 0;
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer version (format ${version}); please update the app`);
+  }
+
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from project format ${version}`);
+    project = migrate(project);
+    version = project.version as number;
+  }
+
+  const layers = project.layers as Layer[];
+  const selectedLayerId = project.selectedLayerId as string | null;
+  return {
+    layers,
+    selectedLayerId: layers.some(l => l.id === selectedLayerId) ? selectedLayerId : null,
+    editMode: project.editMode as EditMode,
+    processingParams: { ...DEFAULT_PROCESSING_PARAMS, ...(project.processingParams as Partial<ProcessingParams>) }
+  };
+};
+
+export const serializeProject = (state: ProjectState): string =>
+  JSON.stringify(createProjectFile(state));
+
+export const parseProject = (json: string): ProjectState => migrateProject(JSON.parse(json));
+
+const DB_NAME = 'kmlbuilder';
+const STORE_NAME = 'projects';
+const AUTOSAVE_KEY = 'autosave';
+const BATCH_KEY = 'batch';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Stores the current state in IndexedDB as a project document.
+ */
+export const saveAutosave = (state: ProjectState): Promise<IDBValidKey> =>
+  runTransaction('readwrite', store => store.put(createProjectFile(state), AUTOSAVE_KEY));
+
+/**
+ * Loads the autosaved project, or null when there is none.
+ */
+export const loadAutosave = async (): Promise<ProjectState | null> => {
+  const saved = await runTransaction('readonly', store => store.get(AUTOSAVE_KEY));
+  return saved ? migrateProject(saved) : null;
+};
+
+/**
+ * Stores a batch run so it can be resumed after the page is closed.
+ */
+export const saveBatch = (items: BatchItem[]): Promise<IDBValidKey> =>
+  runTransaction('readwrite', store => store.put(items, BATCH_KEY));
+
+/**
+ * Loads the saved batch run, or null when there is none.
+ */
+export const loadBatch = async (): Promise<BatchItem[] | null> =>
+  (await runTransaction<BatchItem[] | undefined>('readonly', store => store.get(BATCH_KEY))) || null;
+
+export const clearBatch = (): Promise<undefined> =>
+  runTransaction('readwrite', store => store.delete(BATCH_KEY));
@@ -0,0 +1,87 @@
+import * as turf from '@turf/turf';
+import type { CitySearchResult } from '../types';
+import { hasBoundary } from './batchUtils';
+import type { SearchFeatureType } from './geocoderUtils';
+
+export interface SearchFilters {
+  /** Comma- or space-separated ISO country codes as typed. */
+  countries: string;
+  featureType: SearchFeatureType | '';
+  language: string;
+  boundariesOnly: boolean;
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  countries: '',
+  featureType: '',
+  language: '',
+  boundariesOnly: false
+};
+
+export const SEARCH_FEATURE_TYPES: { value: SearchFeatureType | ''; label: string }[] = [
+  { value: '', label: 'Any type' },
+  { value: 'country', label: 'Countries' },
+  { value: 'state', label: 'States and regions' },
+  { value: 'city', label: 'Cities' },
+  { value: 'settlement', label: 'Cities, towns and villages' }
+];
+
+export const SEARCH_LANGUAGES: { value: string; label: string }[] = [
+  { value: '', label: 'Browser language' },
+  { value: 'en', label: 'English' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'hi', label: 'Hindi' },
+  { value: 'ar', label: 'Arabic' },
+  { value: 'zh', label: 'Chinese' },
+  { value: 'ja', label: 'Japanese' }
+];
+
+export const SEARCH_PAGE_SIZE = 10;
+
+/**
+ * Reads typed country codes ("in, np" or "IN NP"); anything that isn't two letters is dropped.
+ */
+export const parseCountryCodes = (text: string): string[] =>
+  text.split(/[\s,;]+/).map(code => code.toLowerCase()).filter(code => /^[a-z]{2}$/.test(code));
+
+/**
+ * Short label for what a result is, e.g. "city" or "administrative".
+ */
+export const resultTypeLabel = (result: CitySearchResult): string =>
+  (result.addresstype || result.type || result.class || 'place').replace(/_/g, ' ');
+
+/**
+ * The area a result covers as Leaflet bounds ([[south, west], [north, east]]), from
+ * its bounding box or else its boundary; null for a bare point.
+ */
+export const resultBounds = (result: CitySearchResult): [[number, number], [number, number]] | null => {
+  if (result.boundingbox) {
+    const [south, north, west, east] = result.boundingbox.map(Number);
+    if ([south, north, west, east].every(Number.isFinite)) return [[south, west], [north, east]];
+  }
+  if (result.geojson && hasBoundary(result)) {
+    const [west, south, east, north] = turf.bbox(result.geojson);
+    return [[south, west], [north, east]];
+  }
+  return null;
+};
+
+/**
+ * A message for a failed search that says what went wrong and what to do about it.
+ */
+export const describeSearchError = (error: unknown, provider: string): string => {
+  // fetch rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError) {
+    return `Couldn't reach the ${provider} geocoder. Check your connection and try again.`;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (/\b429\b/.test(message)) {
+    return `The ${provider} geocoder is limiting requests. Wait a few seconds and search again.`;
+  }
+  if (/\b5\d\d\b/.test(message)) {
+    return `The ${provider} geocoder is having problems (${message.replace(/^Geocoder request failed: /, '')}). Try again later.`;
+  }
+  return `Search failed: ${message}`;
+};
@@ -0,0 +1,179 @@
+import JSZip from 'jszip';
+import proj4 from 'proj4';
+import { read as readShp } from 'shapefile';
+import type { Coordinate, Feature, Geometry } from '../types';
+
+export type AttributeFilterOperator = 'equals' | 'notEquals' | 'contains' | 'greaterThan' | 'lessThan';
+
+export interface AttributeFilter {
+  field: string;
+  operator: AttributeFilterOperator;
+  value: string;
+}
+
+const isZip = async (file: Blob): Promise<boolean> => {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return header[0] === 0x50 && header[1] === 0x4b && header[2] === 0x03 && header[3] === 0x04;
+};
+
+/**
+ * Checks whether a zip archive contains at least one .shp file.
+ */
+export const isShapefileZip = async (file: Blob): Promise<boolean> => {
+  if (!(await isZip(file))) return false;
+  const zip = await JSZip.loadAsync(file);
+  return Object.keys(zip.files).some(name => name.toLowerCase().endsWith('.shp'));
+};
+
+// A .prj without a PROJCS and on the WGS84 datum is already lon/lat and needs no transform
+const isWGS84 = (prj: string) =>
+  !/PROJCS/i.test(prj) && /WGS[ _]?(19)?84/i.test(prj);
+
+const reprojectGeometry = (geometry: Geometry, project: (c: Coordinate) => Coordinate): Geometry => {
+  switch (geometry.type) {
+    case 'Point':
+      return { ...geometry, coordinates: project(geometry.coordinates) };
+    case 'MultiPoint':
+    case 'LineString':
+      return { ...geometry, coordinates: geometry.coordinates.map(project) };
+    case 'MultiLineString':
+    case 'Polygon':
+      return { ...geometry, coordinates: geometry.coordinates.map(ring => ring.map(project)) };
+    case 'MultiPolygon':
+      return { ...geometry, coordinates: geometry.coordinates.map(poly => poly.map(ring => ring.map(project))) };
+    case 'GeometryCollection':
+      return { ...geometry, geometries: geometry.geometries.map(g => reprojectGeometry(g, project)) };
+  }
+};
+
+// Picks a sensible label from common DBF name columns
+const recordName = (properties: Record<string, unknown>, fallback: string): string => {
+  const key = Object.keys(properties).find(k => /^(name|nom|nombre|name_?\d*|.*_name)$/i.test(k));
+  const value = key ? properties[key] : undefined;
+  return value !== undefined && value !== null && String(value).trim() ? String(value).trim() : fallback;
+};
+
+/**
+ * Reads one shapefile (geometry, attributes, projection and encoding) into WGS84 Features.
+ */
+export const readShapefile = async (
+  name: string,
+  shp: ArrayBuffer,
+  dbf?: ArrayBuffer,
+  prj?: string,
+  encoding?: string
+): Promise<Feature[]> => {
+  const collection = await readShp(shp, dbf, encoding ? { encoding } : undefined);
+
+  let project: ((c: Coordinate) => Coordinate) | null = null;
+  if (prj && !isWGS84(prj)) {
+    try {
+      const converter = proj4(prj, 'WGS84');
+      // Only x/y are reprojected; Z (and M) pass through unchanged
+      project = (c: Coordinate) => [...converter.forward([c[0], c[1]]), ...c.slice(2)] as Coordinate;
+    } catch (error) {
+      throw new Error(`Unsupported projection in ${name}.prj: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return collection.features
+    .filter(feature => feature.geometry)
+    .map((feature, index) => {
+      const properties = { ...(feature.properties || {}) };
+      const geometry = feature.geometry as unknown as Geometry;
+      return {
+        type: 'Feature',
+        properties: {
+          ...properties,
+          name: recordName(properties, `${name} ${index + 1}`)
+        },
+        geometry: project ? reprojectGeometry(geometry, project) : geometry
+      };
+    });
+};
+
+/**
+ * Reads every shapefile in a zip. When the archive holds several, each one's
+ * records are grouped in a folder named after it.
+ */
+export const readShapefileZip = async (file: Blob): Promise<Feature[]> => {
+  const zip = await JSZip.loadAsync(file);
+  const entries = Object.values(zip.files).filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX/'));
+
+  // Sidecar files share the .shp's path and differ only in extension
+  const sidecar = (stem: string, ext: string) =>
+    entries.find(entry => entry.name.toLowerCase() === `${stem}.${ext}`.toLowerCase());
+
+  const shpEntries = entries.filter(entry => entry.name.toLowerCase().endsWith('.shp'));
+  if (shpEntries.length === 0) {
+    throw new Error('Zip archive does not contain a .shp file');
+  }
+
+  const features: Feature[] = [];
+  for (const shpEntry of shpEntries) {
+    const stem = shpEntry.name.replace(/\.shp$/i, '');
+    const name = stem.split('/').pop() || stem;
+    const dbf = sidecar(stem, 'dbf');
+    const prj = sidecar(stem, 'prj');
+    const cpg = sidecar(stem, 'cpg');
+
+    const layerFeatures = await readShapefile(
+      name,
+      await shpEntry.async('arraybuffer'),
+      dbf ? await dbf.async('arraybuffer') : undefined,
+      prj ? await prj.async('string') : undefined,
+      cpg ? (await cpg.async('string')).trim() : undefined
+    );
+
+    features.push(...(shpEntries.length > 1
+      ? layerFeatures.map(f => ({ ...f, properties: { ...f.properties, folderPath: [name] } }))
+      : layerFeatures));
+  }
+  return features;
+};
+
+/**
+ * Lists the attribute columns present on any of the features.
+ */
+export const getAttributeFields = (features: Feature[]): string[] => {
+  const fields = new Set<string>();
+  features.forEach(feature => {
+    Object.keys(feature.properties || {}).forEach(key => {
+      if (key !== 'folderPath') fields.add(key);
+    });
+  });
+  return [...fields];
+};
+
+/**
+ * Keeps the features whose attribute matches the filter. Comparisons are numeric
+ * when both sides are numbers and case-insensitive otherwise.
+ */
+export const filterByAttribute = (features: Feature[], filter: AttributeFilter): Feature[] => {
+  if (!filter.field) return features;
+
+  const expected = filter.value.trim();
+  const expectedNumber = parseFloat(expected);
+
+  return features.filter(feature => {
+    const raw = feature.properties?.[filter.field];
+    const actual = raw === undefined || raw === null ? '' : String(raw).trim();
+    const actualNumber = parseFloat(actual);
+    const numeric = !isNaN(actualNumber) && !isNaN(expectedNumber);
+
+    switch (filter.operator) {
+      case 'equals':
+        return numeric ? actualNumber === expectedNumber : actual.toLowerCase() === expected.toLowerCase();
+      case 'notEquals':
+        return numeric ? actualNumber !== expectedNumber : actual.toLowerCase() !== expected.toLowerCase();
+      case 'contains':
+        return actual.toLowerCase().includes(expected.toLowerCase());
+      case 'greaterThan':
+        return numeric && actualNumber > expectedNumber;
+      case 'lessThan':
+        return numeric && actualNumber < expectedNumber;
+      default:
+        return true;
+    }
+  });
+};
@@ -0,0 +1,444 @@
+import * as turf from '@turf/turf';
+import type { Coordinate, Feature, Geometry } from '../types';
+import { toKML } from './geometryUtils';
+import { segmentsCross, type Point } from './spatialUtils';
+
+export type SimplifyAlgorithm = 'douglas-peucker' | 'visvalingam';
+
+export type SimplifyTarget =
+  | { kind: 'tolerance'; metres: number }
+  | { kind: 'vertices'; count: number }
+  | { kind: 'bytes'; bytes: number };
+
+export interface GeometryStats {
+  vertices: number;
+  bytes: number;
+  areaM2: number;
+}
+
+export interface SimplifyResult {
+  geometry: Geometry;
+  toleranceMetres: number;
+  before: GeometryStats;
+  after: GeometryStats;
+  areaChangePercent: number;
+}
+
+// Halvings of the tolerance tried before a ring that keeps self-intersecting is left as it was
+const MAX_TOPOLOGY_RETRIES = 8;
+// Binary-search steps when solving for a vertex count or byte budget
+const TARGET_SEARCH_STEPS = 24;
+
+/**
+ * Local equirectangular projection in metres, accurate enough for tolerances
+ * within a single boundary. Altitudes ride along as a third element, which the
+ * simplifiers keep because they only ever drop whole points.
+ */
+export const createProjection = (geometry: Geometry) => {
+  const [, minY, , maxY] = turf.bbox(geometry as never);
+  const lat0 = ((minY + maxY) / 2) * Math.PI / 180;
+  const kx = 111320 * Math.cos(lat0);
+  const ky = 110540;
+  return {
+    forward: (c: Coordinate): Point => [c[0] * kx, c[1] * ky, ...c.slice(2)] as Point,
+    inverse: (p: Point): Coordinate => [p[0] / kx, p[1] / ky, ...p.slice(2)] as Coordinate
+  };
+};
+
+const distanceSq = (a: Point, b: Point) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2;
+
+const perpendicularDistanceSq = (p: Point, a: Point, b: Point): number => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return distanceSq(p, a);
+  const t = Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq));
+  return (p[0] - a[0] - t * dx) ** 2 + (p[1] - a[1] - t * dy) ** 2;
+};
+
+/**
+ * Douglas-Peucker: keeps every point further than `tolerance` from the simplified line.
+ * Closed rings are seeded with two far-apart points so they never collapse below a triangle.
+ */
+const douglasPeucker = (points: Point[], tolerance: number, closed: boolean): Point[] => {
+  if (points.length <= 2) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const toleranceSq = tolerance * tolerance;
+
+  const farthest = (first: number, last: number) => {
+    let maxDist = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const d = perpendicularDistanceSq(points[i], points[first], points[last]);
+      if (d > maxDist) {
+        maxDist = d;
+        index = i;
+      }
+    }
+    return { index, maxDist };
+  };
+
+  const stack: [number, number][] = [];
+  if (closed && points.length > 4) {
+    // First and last point coincide, so split the ring at the point furthest from the start
+    let split = 1;
+    for (let i = 2; i < points.length - 1; i++) {
+      if (distanceSq(points[i], points[0]) > distanceSq(points[split], points[0])) split = i;
+    }
+    keep[split] = 1;
+    const a = farthest(0, split);
+    const b = farthest(split, points.length - 1);
+    const third = a.maxDist >= b.maxDist ? a.index : b.index;
+    if (third !== -1) keep[third] = 1;
+    stack.push([0, split], [split, points.length - 1]);
+  } else {
+    stack.push([0, points.length - 1]);
+  }
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    const { index, maxDist } = farthest(first, last);
+    if (index !== -1 && (maxDist > toleranceSq || keep[index])) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+const triangleArea = (a: Point, b: Point, c: Point) =>
+  Math.abs((b[0] - a[0]) * (c[1] - a[1]) - (c[0] - a[0]) * (b[1] - a[1])) / 2;
+
+/**
+ * Visvalingam-Whyatt: repeatedly drops the point forming the smallest triangle
+ * until every remaining triangle is at least `tolerance²` in area or only
+ * `minPoints` are left.
+ */
+const visvalingam = (points: Point[], tolerance: number, minPoints: number): Point[] => {
+  const n = points.length;
+  if (n <= minPoints) return points;
+  const threshold = tolerance * tolerance;
+
+  const prev = new Int32Array(n).map((_, i) => i - 1);
+  const next = new Int32Array(n).map((_, i) => (i + 1 < n ? i + 1 : -1));
+  const area = new Float64Array(n).fill(Infinity);
+  const removed = new Uint8Array(n);
+
+  // Binary min-heap of point indices keyed by their current triangle area
+  const heap: number[] = [];
+  const position = new Int32Array(n).fill(-1);
+  const swap = (i: number, j: number) => {
+    [heap[i], heap[j]] = [heap[j], heap[i]];
+    position[heap[i]] = i;
+    position[heap[j]] = j;
+  };
+  const up = (i: number) => {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (area[heap[parent]] <= area[heap[i]]) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+  const down = (i: number) => {
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && area[heap[left]] < area[heap[smallest]]) smallest = left;
+      if (right < heap.length && area[heap[right]] < area[heap[smallest]]) smallest = right;
+      if (smallest === i) break;
+      swap(i, smallest);
+      i = smallest;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    position[top] = -1;
+    if (heap.length > 0) {
+      heap[0] = last;
+      position[last] = 0;
+      down(0);
+    }
+    return top;
+  };
+  const update = (i: number) => {
+    if (prev[i] < 0 || next[i] < 0) return;
+    // Areas never decrease below the last removed one, so removal order stays monotonic
+    area[i] = triangleArea(points[prev[i]], points[i], points[next[i]]);
+    if (position[i] === -1) {
+      heap.push(i);
+      position[i] = heap.length - 1;
+    }
+    up(position[i]);
+    down(position[i]);
+  };
+
+  for (let i = 1; i < n - 1; i++) update(i);
+
+  let lastArea = 0;
+  let remaining = n;
+  while (heap.length > 0 && remaining > minPoints) {
+    const i = heap[0];
+    const effective = Math.max(area[i], lastArea);
+    if (effective >= threshold) break;
+    pop();
+    lastArea = effective;
+    removed[i] = 1;
+    remaining--;
+    next[prev[i]] = next[i];
+    prev[next[i]] = prev[i];
+    update(prev[i]);
+    update(next[i]);
+  }
+  return points.filter((_, i) => !removed[i]);
+};
+
+/**
+ * Finds proper crossings between any two non-adjacent segments of the given rings,
+ * using a uniform grid so large rings are checked in roughly linear time.
+ * Returns the crossing points (empty when the rings are simple and disjoint).
+ */
+export const findSegmentIntersections = (rings: Coordinate[][], limit: number = Infinity): Coordinate[] => {
+  const segments: { a: Point; b: Point; ring: number; index: number; length: number }[] = [];
+  rings.forEach((ring, r) => {
+    for (let i = 0; i < ring.length - 1; i++) {
+      segments.push({ a: ring[i] as Point, b: ring[i + 1] as Point, ring: r, index: i, length: ring.length - 1 });
+    }
+  });
+  if (segments.length < 2) return [];
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  segments.forEach(({ a }) => {
+    minX = Math.min(minX, a[0]); maxX = Math.max(maxX, a[0]);
+    minY = Math.min(minY, a[1]); maxY = Math.max(maxY, a[1]);
+  });
+  const cells = Math.max(1, Math.ceil(Math.sqrt(segments.length)));
+  const cellW = (maxX - minX) / cells || 1;
+  const cellH = (maxY - minY) / cells || 1;
+  const grid = new Map<number, number[]>();
+
+  segments.forEach((s, id) => {
+    const x0 = Math.floor((Math.min(s.a[0], s.b[0]) - minX) / cellW);
+    const x1 = Math.floor((Math.max(s.a[0], s.b[0]) - minX) / cellW);
+    const y0 = Math.floor((Math.min(s.a[1], s.b[1]) - minY) / cellH);
+    const y1 = Math.floor((Math.max(s.a[1], s.b[1]) - minY) / cellH);
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        const key = x * (cells + 1) + y;
+        const bucket = grid.get(key);
+        if (bucket) bucket.push(id);
+        else grid.set(key, [id]);
+      }
+    }
+  });
+
+  const found: Coordinate[] = [];
+  const tested = new Set<number>();
+  for (const bucket of grid.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const p = segments[bucket[i]];
+        const q = segments[bucket[j]];
+        // Neighbouring segments of one ring always share a vertex
+        if (p.ring === q.ring) {
+          const gap = Math.abs(p.index - q.index);
+          if (gap <= 1 || gap === p.length - 1) continue;
+        }
+        const pairKey = Math.min(bucket[i], bucket[j]) * segments.length + Math.max(bucket[i], bucket[j]);
+        if (tested.has(pairKey)) continue;
+        tested.add(pairKey);
+        if (segmentsCross(p.a, p.b, q.a, q.b)) {
+          found.push([(p.a[0] + p.b[0] + q.a[0] + q.b[0]) / 4, (p.a[1] + p.b[1] + q.a[1] + q.b[1]) / 4]);
+          if (found.length >= limit) return found;
+        }
+      }
+    }
+  }
+  return found;
+};
+
+const polygonRings = (geometry: Geometry): Coordinate[][] => {
+  switch (geometry.type) {
+    case 'Polygon':
+      return geometry.coordinates;
+    case 'MultiPolygon':
+      return geometry.coordinates.flat();
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(polygonRings);
+    default:
+      return [];
+  }
+};
+
+const ringArea = (ring: Point[]) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return Math.abs(sum) / 2;
+};
+
+const simplifyLine = (
+  line: Coordinate[],
+  tolerance: number,
+  algorithm: SimplifyAlgorithm,
+  projection: ReturnType<typeof createProjection>,
+  closed: boolean
+): Point[] => {
+  const projected = line.map(projection.forward);
+  const minPoints = closed ? 4 : 2;
+  if (tolerance <= 0 || line.length <= minPoints) return projected;
+  return algorithm === 'visvalingam'
+    ? visvalingam(projected, tolerance, minPoints)
+    : douglasPeucker(projected, tolerance, closed);
+};
+
+/**
+ * Simplifies a polygon's rings. Holes smaller than the tolerance are dropped; a shell
+ * smaller than the tolerance drops the whole polygon unless `keep` is set.
+ */
+const simplifyPolygon = (
+  rings: Coordinate[][],
+  tolerance: number,
+  algorithm: SimplifyAlgorithm,
+  projection: ReturnType<typeof createProjection>,
+  keep: boolean
+): Coordinate[][] | null => {
+  const minArea = tolerance * tolerance;
+  const [shell, ...holes] = rings.map(ring => simplifyLine(ring, tolerance, algorithm, projection, true));
+  if (!keep && ringArea(shell) < minArea) return null;
+  return [shell, ...holes.filter(hole => ringArea(hole) >= minArea)]
+    .map(ring => ring.map(projection.inverse));
+};
+
+const simplifyOnce = (
+  geometry: Geometry,
+  tolerance: number,
+  algorithm: SimplifyAlgorithm,
+  projection: ReturnType<typeof createProjection>
+): Geometry => {
+  const simplifyPath = (line: Coordinate[]) =>
+    simplifyLine(line, tolerance, algorithm, projection, false).map(projection.inverse);
+
+  switch (geometry.type) {
+    case 'LineString':
+      return { ...geometry, coordinates: simplifyPath(geometry.coordinates) };
+    case 'MultiLineString':
+      return { ...geometry, coordinates: geometry.coordinates.map(simplifyPath) };
+    case 'Polygon':
+      return { ...geometry, coordinates: simplifyPolygon(geometry.coordinates, tolerance, algorithm, projection, true)! };
+    case 'MultiPolygon': {
+      // Never simplify a boundary out of existence: the largest part always survives
+      const areas = geometry.coordinates.map(part => ringArea(part[0].map(projection.forward)));
+      const largest = areas.indexOf(Math.max(...areas));
+      const parts = geometry.coordinates
+        .map((part, i) => simplifyPolygon(part, tolerance, algorithm, projection, i === largest))
+        .filter((part): part is Coordinate[][] => part !== null);
+      return parts.length === 1 ? { type: 'Polygon', coordinates: parts[0] } : { ...geometry, coordinates: parts };
+    }
+    case 'GeometryCollection':
+      return { ...geometry, geometries: geometry.geometries.map(g => simplifyOnce(g, tolerance, algorithm, projection)) };
+    default:
+      return geometry;
+  }
+};
+
+/**
+ * Simplifies a geometry with a tolerance in metres. Topology is preserved: if the
+ * result has crossings the input did not, the tolerance is halved and retried.
+ */
+export const simplifyGeometry = (geometry: Geometry, algorithm: SimplifyAlgorithm, toleranceMetres: number): Geometry => {
+  if (toleranceMetres <= 0) return geometry;
+  const projection = createProjection(geometry);
+  const originallyValid = findSegmentIntersections(polygonRings(geometry), 1).length === 0;
+
+  let tolerance = toleranceMetres;
+  for (let attempt = 0; attempt <= MAX_TOPOLOGY_RETRIES; attempt++) {
+    const simplified = simplifyOnce(geometry, tolerance, algorithm, projection);
+    if (!originallyValid || findSegmentIntersections(polygonRings(simplified), 1).length === 0) {
+      return simplified;
+    }
+    tolerance /= 2;
+  }
+  return geometry;
+};
+
+export const countVertices = (geometry: Geometry): number => {
+  switch (geometry.type) {
+    case 'Point':
+      return 1;
+    case 'MultiPoint':
+    case 'LineString':
+      return geometry.coordinates.length;
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates.reduce((sum, ring) => sum + ring.length, 0);
+    case 'MultiPolygon':
+      return geometry.coordinates.reduce((sum, poly) => sum + poly.reduce((s, ring) => s + ring.length, 0), 0);
+    case 'GeometryCollection':
+      return geometry.geometries.reduce((sum, g) => sum + countVertices(g), 0);
+  }
+};
+
+const encoder = new TextEncoder();
+
+export const getGeometryStats = (feature: Feature, name: string): GeometryStats => ({
+  vertices: countVertices(feature.geometry),
+  bytes: encoder.encode(toKML(feature, name)).length,
+  areaM2: turf.area(feature as never)
+});
+
+/**
+ * Simplifies a feature to a tolerance, vertex count or KML size budget and
+ * reports vertex count, KML size and area before and after.
+ */
+export const simplifyToTarget = (
+  feature: Feature,
+  name: string,
+  algorithm: SimplifyAlgorithm,
+  target: SimplifyTarget
+): SimplifyResult => {
+  const before = getGeometryStats(feature, name);
+  const build = (toleranceMetres: number) => {
+    const geometry = simplifyGeometry(feature.geometry, algorithm, toleranceMetres);
+    return { geometry, toleranceMetres, stats: getGeometryStats({ ...feature, geometry }, name) };
+  };
+
+  let best: ReturnType<typeof build>;
+  if (target.kind === 'tolerance') {
+    best = build(target.metres);
+  } else {
+    const measure = (stats: GeometryStats) => target.kind === 'vertices' ? stats.vertices : stats.bytes;
+    const goal = target.kind === 'vertices' ? target.count : target.bytes;
+
+    best = { geometry: feature.geometry, toleranceMetres: 0, stats: before };
+    if (measure(before) > goal) {
+      // Search between zero and the geometry's diagonal, keeping the smallest tolerance that meets the goal
+      const [minX, minY, maxX, maxY] = turf.bbox(feature as never);
+      let low = 0;
+      let high = turf.distance([minX, minY], [maxX, maxY], { units: 'meters' }) || 1;
+      best = build(high);
+      for (let step = 0; step < TARGET_SEARCH_STEPS && high - low > 0.01; step++) {
+        const mid = (low + high) / 2;
+        const candidate = build(mid);
+        if (measure(candidate.stats) <= goal) {
+          best = candidate;
+          high = mid;
+        } else {
+          low = mid;
+        }
+      }
+    }
+  }
+
+  return {
+    geometry: best.geometry,
+    toleranceMetres: best.toleranceMetres,
+    before,
+    after: best.stats,
+    areaChangePercent: before.areaM2 > 0 ? ((best.stats.areaM2 - before.areaM2) / before.areaM2) * 100 : 0
+  };
+};
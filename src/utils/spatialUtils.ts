@@ -0,0 +1,196 @@
+export type Point = [number, number];
+
+export interface Neighbour<T> {
+  item: T;
+  distSq: number;
+}
+
+export interface KDTree<T> {
+  /** The `k` active items closest to `point`, nearest first. */
+  nearest: (point: Point, k: number) => Neighbour<T>[];
+  /** Includes or excludes the item at `index` in the original array from searches. */
+  setActive: (index: number, active: boolean) => void;
+}
+
+/**
+ * Static 2D KD-tree over items, stored as a balanced implicit tree in one index array.
+ * Items can be switched off and on; subtrees with no active items are skipped entirely,
+ * as are subtrees whose bounding box is further away than the k-th nearest found so far.
+ */
+export const createKDTree = <T>(items: T[], getPoint: (item: T) => Point, active: boolean = true): KDTree<T> => {
+  const points = items.map(getPoint);
+  const ids = items.map((_, i) => i);
+  const n = ids.length;
+  // Per tree position: parent position, and how many active items its subtree holds
+  const parent = new Int32Array(n);
+  const activeCount = new Int32Array(n);
+  const position = new Int32Array(n);
+  const isActive = new Uint8Array(n).fill(active ? 1 : 0);
+  // Per tree position: bounding box of its subtree, as minX, minY, maxX, maxY
+  const boxes = new Float64Array(n * 4);
+
+  const build = (from: number, to: number, axis: number, parentPos: number) => {
+    if (from >= to) return;
+    const slice = ids.slice(from, to).sort((a, b) => points[a][axis] - points[b][axis]);
+    ids.splice(from, slice.length, ...slice);
+    const mid = (from + to) >> 1;
+    parent[mid] = parentPos;
+    activeCount[mid] = active ? to - from : 0;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    slice.forEach(id => {
+      const [x, y] = points[id];
+      if (x < minX) minX = x;
+      if (y < minY) minY = y;
+      if (x > maxX) maxX = x;
+      if (y > maxY) maxY = y;
+    });
+    boxes.set([minX, minY, maxX, maxY], mid * 4);
+    build(from, mid, 1 - axis, mid);
+    build(mid + 1, to, 1 - axis, mid);
+  };
+  build(0, n, 0, -1);
+  ids.forEach((id, pos) => {
+    position[id] = pos;
+  });
+
+  const setActive = (index: number, value: boolean) => {
+    if (Boolean(isActive[index]) === value) return;
+    isActive[index] = value ? 1 : 0;
+    for (let pos = position[index]; pos !== -1; pos = parent[pos]) {
+      activeCount[pos] += value ? 1 : -1;
+    }
+  };
+
+  const nearest = (point: Point, k: number): Neighbour<T>[] => {
+    const best: { id: number; distSq: number }[] = [];
+    const worst = () => (best.length < k ? Infinity : best[best.length - 1].distSq);
+
+    const search = (from: number, to: number, axis: number) => {
+      if (from >= to) return;
+      const mid = (from + to) >> 1;
+      if (activeCount[mid] === 0) return;
+      const box = mid * 4;
+      const outsideX = Math.max(boxes[box] - point[0], 0, point[0] - boxes[box + 2]);
+      const outsideY = Math.max(boxes[box + 1] - point[1], 0, point[1] - boxes[box + 3]);
+      if (outsideX * outsideX + outsideY * outsideY >= worst()) return;
+      const id = ids[mid];
+      const p = points[id];
+      const distSq = (p[0] - point[0]) ** 2 + (p[1] - point[1]) ** 2;
+
+      if (isActive[id] && distSq < worst()) {
+        let i = best.length;
+        while (i > 0 && best[i - 1].distSq > distSq) i--;
+        best.splice(i, 0, { id, distSq });
+        if (best.length > k) best.pop();
+      }
+
+      const delta = point[axis] - p[axis];
+      if (delta < 0) {
+        search(from, mid, 1 - axis);
+        if (delta * delta < worst()) search(mid + 1, to, 1 - axis);
+      } else {
+        search(mid + 1, to, 1 - axis);
+        if (delta * delta < worst()) search(from, mid, 1 - axis);
+      }
+    };
+    search(0, n, 0);
+
+    return best.map(({ id, distSq }) => ({ item: items[id], distSq }));
+  };
+
+  return { nearest, setActive };
+};
+
+const orientation = (p: Point, q: Point, r: Point) =>
+  Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+
+/**
+ * True when segments ab and cd cross at a point inside both; touching at an endpoint does not count.
+ */
+export const segmentsCross = (a: Point, b: Point, c: Point, d: Point): boolean => {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  return o1 !== o2 && o3 !== o4 && o1 !== 0 && o2 !== 0 && o3 !== 0 && o4 !== 0;
+};
+
+export interface SegmentIndex {
+  add: (a: Point, b: Point) => void;
+  /** True when ab properly crosses any indexed segment. */
+  crosses: (a: Point, b: Point) => boolean;
+}
+
+/**
+ * Uniform grid of segments within fixed bounds. Each segment is filed under every
+ * cell its line passes through, so long segments stay cheap to add and to query.
+ */
+export const createSegmentIndex = (bounds: [number, number, number, number], expectedSegments: number): SegmentIndex => {
+  const [minX, minY, maxX, maxY] = bounds;
+  const cells = Math.max(1, Math.ceil(Math.sqrt(expectedSegments)));
+  const cellW = (maxX - minX) / cells || 1;
+  const cellH = (maxY - minY) / cells || 1;
+  const grid = new Map<number, number[]>();
+  const segments: [Point, Point][] = [];
+
+  const clamp = (value: number) => Math.min(cells - 1, Math.max(0, Math.floor(value)));
+
+  // Grid traversal (Amanatides & Woo) over the cells the segment passes through
+  const visitCells = (a: Point, b: Point, visit: (key: number) => void) => {
+    const fx = (a[0] - minX) / cellW;
+    const fy = (a[1] - minY) / cellH;
+    let x = clamp(fx);
+    let y = clamp(fy);
+    const endX = clamp((b[0] - minX) / cellW);
+    const endY = clamp((b[1] - minY) / cellH);
+    const dx = (b[0] - a[0]) / cellW;
+    const dy = (b[1] - a[1]) / cellH;
+    const stepX = Math.sign(dx);
+    const stepY = Math.sign(dy);
+    const deltaX = stepX ? Math.abs(1 / dx) : Infinity;
+    const deltaY = stepY ? Math.abs(1 / dy) : Infinity;
+    let maxX = stepX > 0 ? (x + 1 - fx) * deltaX : stepX < 0 ? (fx - x) * deltaX : Infinity;
+    let maxY = stepY > 0 ? (y + 1 - fy) * deltaY : stepY < 0 ? (fy - y) * deltaY : Infinity;
+
+    visit(x * cells + y);
+    for (let steps = 0; (x !== endX || y !== endY) && steps < 2 * cells + 2; steps++) {
+      if (maxX < maxY) {
+        maxX += deltaX;
+        x = clamp(x + stepX);
+      } else {
+        maxY += deltaY;
+        y = clamp(y + stepY);
+      }
+      visit(x * cells + y);
+    }
+  };
+
+  const add = (a: Point, b: Point) => {
+    const id = segments.push([a, b]) - 1;
+    visitCells(a, b, key => {
+      const bucket = grid.get(key);
+      if (!bucket) grid.set(key, [id]);
+      else if (bucket[bucket.length - 1] !== id) bucket.push(id);
+    });
+  };
+
+  const crosses = (a: Point, b: Point) => {
+    const seen = new Set<number>();
+    let found = false;
+    visitCells(a, b, key => {
+      if (found) return;
+      for (const id of grid.get(key) || []) {
+        if (seen.has(id)) continue;
+        seen.add(id);
+        const [c, d] = segments[id];
+        if (segmentsCross(a, b, c, d)) {
+          found = true;
+          return;
+        }
+      }
+    });
+    return found;
+  };
+
+  return { add, crosses };
+};
@@ -0,0 +1,161 @@
+import * as turf from '@turf/turf';
+import type { Geometry as GeoJSONGeometry } from 'geojson';
+import type { Coordinate, Feature, Geometry } from '../types';
+import { countVertices, createProjection } from './simplifyUtils';
+import { createKDTree, type Point } from './spatialUtils';
+
+export interface LayerStats {
+  /** Geodesic area in m² (zero for points and lines). */
+  areaM2: number;
+  /** Geodesic length of every ring, or of the line for line layers, in metres. */
+  perimeterM: number;
+  vertices: number;
+  parts: number;
+  holes: number;
+  centroid: Coordinate | null;
+  bbox: [number, number, number, number] | null;
+  /** Comparison with `properties.originalGeoJson`, when the layer has one. */
+  original: {
+    areaM2: number;
+    areaChangePercent: number;
+    /** Largest distance from either boundary to the other, in metres. */
+    hausdorffM: number;
+  } | null;
+}
+
+// Boundaries are resampled to about this many points for the Hausdorff distance (a city boundary gets ~20 m spacing)
+const MAX_HAUSDORFF_POINTS = 20000;
+
+const asGeoJSON = (geometry: Geometry) => geometry as unknown as GeoJSONGeometry;
+
+const polygonsOf = (geometry: Geometry): Coordinate[][][] => {
+  switch (geometry.type) {
+    case 'Polygon':
+      return [geometry.coordinates];
+    case 'MultiPolygon':
+      return geometry.coordinates;
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(polygonsOf);
+    default:
+      return [];
+  }
+};
+
+// Every ring and line as a path, and points as one-point paths
+const pathsOf = (geometry: Geometry): Coordinate[][] => {
+  switch (geometry.type) {
+    case 'Point':
+      return [[geometry.coordinates]];
+    case 'MultiPoint':
+      return geometry.coordinates.map(c => [c]);
+    case 'LineString':
+      return [geometry.coordinates];
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates;
+    case 'MultiPolygon':
+      return geometry.coordinates.flat();
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(pathsOf);
+  }
+};
+
+const pathLength = (path: Coordinate[]) =>
+  path.length < 2 ? 0 : turf.length(turf.lineString(path), { units: 'meters' });
+
+// Area-weighted centre of the polygonal parts; the plain centroid for anything else
+const centreOf = (geometry: Geometry): Coordinate | null => {
+  const polygons = polygonsOf(geometry).filter(rings => rings[0]?.length >= 4);
+  if (polygons.length === 0) {
+    const coords = pathsOf(geometry).flat();
+    return coords.length > 0 ? turf.centroid(asGeoJSON(geometry)).geometry.coordinates as Coordinate : null;
+  }
+
+  let total = 0;
+  let x = 0;
+  let y = 0;
+  polygons.forEach(rings => {
+    const polygon = turf.polygon(rings);
+    const area = turf.area(polygon);
+    const [cx, cy] = turf.centerOfMass(polygon).geometry.coordinates;
+    total += area;
+    x += cx * area;
+    y += cy * area;
+  });
+  return total > 0 ? [x / total, y / total] : turf.centroid(turf.polygon(polygons[0])).geometry.coordinates as Coordinate;
+};
+
+/**
+ * Approximate Hausdorff distance between two geometries' boundaries. Both are
+ * resampled so no two neighbouring points are further apart than `spacing`, which
+ * bounds the error to about half of it.
+ */
+const hausdorffDistance = (a: Geometry, b: Geometry): number => {
+  const projection = createProjection({ type: 'GeometryCollection', geometries: [a, b] });
+  const project = (geometry: Geometry) => pathsOf(geometry).map(path => path.map(projection.forward));
+  const pathsA = project(a);
+  const pathsB = project(b);
+
+  const length = (paths: Point[][]) => paths.reduce((sum, path) =>
+    sum + path.slice(1).reduce((s, p, i) => s + Math.hypot(p[0] - path[i][0], p[1] - path[i][1]), 0), 0);
+  const spacing = Math.max(1, (length(pathsA) + length(pathsB)) / MAX_HAUSDORFF_POINTS);
+
+  const resample = (paths: Point[][]): Point[] => paths.flatMap(path => {
+    if (path.length < 2) return path;
+    const points: Point[] = [];
+    path.slice(1).forEach((q, i) => {
+      const p = path[i];
+      const steps = Math.max(1, Math.ceil(Math.hypot(q[0] - p[0], q[1] - p[1]) / spacing));
+      for (let k = 0; k < steps; k++) {
+        points.push([p[0] + (q[0] - p[0]) * (k / steps), p[1] + (q[1] - p[1]) * (k / steps)]);
+      }
+    });
+    points.push(path[path.length - 1]);
+    return points;
+  });
+
+  const pointsA = resample(pathsA);
+  const pointsB = resample(pathsB);
+  if (pointsA.length === 0 || pointsB.length === 0) return 0;
+
+  const directed = (from: Point[], to: Point[]) => {
+    const tree = createKDTree(to, p => p);
+    return from.reduce((max, p) => Math.max(max, tree.nearest(p, 1)[0].distSq), 0);
+  };
+  return Math.sqrt(Math.max(directed(pointsA, pointsB), directed(pointsB, pointsA)));
+};
+
+/**
+ * Size and shape figures for a layer, plus how far processing moved it from the
+ * original boundary.
+ */
+export const getLayerStats = (feature: Feature): LayerStats => {
+  const { geometry } = feature;
+  const polygons = polygonsOf(geometry);
+  const paths = pathsOf(geometry);
+  const hasLines = geometry.type === 'LineString' || geometry.type === 'MultiLineString';
+  const areaM2 = turf.area(asGeoJSON(geometry));
+
+  let original: LayerStats['original'] = null;
+  const source = feature.properties.originalGeoJson;
+  if (source) {
+    const originalGeometry: Geometry = source.type === 'Feature' ? source.geometry : source;
+    const originalArea = turf.area(asGeoJSON(originalGeometry));
+    original = {
+      areaM2: originalArea,
+      areaChangePercent: originalArea > 0 ? ((areaM2 - originalArea) / originalArea) * 100 : 0,
+      hausdorffM: hausdorffDistance(geometry, originalGeometry)
+    };
+  }
+
+  return {
+    areaM2,
+    perimeterM: (hasLines ? paths : polygons.flat()).reduce((sum, path) => sum + pathLength(path), 0),
+    vertices: countVertices(geometry),
+    parts: polygons.length || paths.length,
+    holes: polygons.reduce((sum, rings) => sum + rings.length - 1, 0),
+    centroid: centreOf(geometry),
+    bbox: paths.flat().length > 0 ? turf.bbox(asGeoJSON(geometry)) as [number, number, number, number] : null,
+    original
+  };
+};
@@ -0,0 +1,92 @@
+import type { Feature, Layer, LayerStyle } from '../types';
+
+export const DEFAULT_LAYER_STYLE: LayerStyle = {
+  strokeWidth: 2,
+  fillOpacity: 0.15,
+  dashed: false
+};
+
+// Dash pattern for dashed outlines, as Leaflet's dashArray and GeoJSON's stroke-dasharray
+export const DASH_ARRAY = '6 4';
+
+export interface ResolvedStyle extends Required<Omit<LayerStyle, 'showLabel' | 'iconHref'>> {
+  strokeColor: string;
+  showLabel?: boolean;
+  iconHref?: string;
+}
+
+/**
+ * A layer's complete style, with defaults filled in and the fill following the
+ * layer colour unless it was set separately.
+ */
+export const getLayerStyle = (layer: Pick<Layer, 'color' | 'style'>): ResolvedStyle => ({
+  ...DEFAULT_LAYER_STYLE,
+  ...layer.style,
+  strokeColor: layer.color,
+  fillColor: layer.style?.fillColor || layer.color
+});
+
+// simplestyle-spec keys, plus stroke-dasharray, show-label and icon-href for what the spec can't express.
+// stroke-opacity has no layer style to go into, so it stays an ordinary attribute.
+export const STYLE_PROPERTIES = new Set([
+  'stroke', 'stroke-width', 'fill', 'fill-opacity', 'stroke-dasharray', 'show-label', 'icon-href'
+]);
+
+// Expands #rgb to #rrggbb, which colour inputs require; anything else that isn't a hex colour is rejected
+const normalizeColor = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const hex = value.trim().toLowerCase();
+  if (/^#[0-9a-f]{6}$/.test(hex)) return hex;
+  if (/^#[0-9a-f]{3}$/.test(hex)) return `#${hex.slice(1).split('').map(c => c + c).join('')}`;
+  return undefined;
+};
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(number) ? number : fallback;
+};
+
+/**
+ * The layer's style as simplestyle-spec properties, for GeoJSON export.
+ */
+export const styleToProperties = (layer: Pick<Layer, 'color' | 'style'>): Record<string, unknown> => {
+  const style = getLayerStyle(layer);
+  return {
+    stroke: style.strokeColor,
+    'stroke-width': style.strokeWidth,
+    fill: style.fillColor,
+    'fill-opacity': style.fillOpacity,
+    ...(style.dashed ? { 'stroke-dasharray': DASH_ARRAY } : {}),
+    ...(style.showLabel !== undefined ? { 'show-label': style.showLabel } : {}),
+    ...(style.iconHref ? { 'icon-href': style.iconHref } : {})
+  };
+};
+
+/**
+ * Splits the style properties of an imported feature (simplestyle from GeoJSON, or
+ * the same keys read from KML Styles) off into a layer colour and style. Colour and
+ * style are undefined when the feature carries no style.
+ */
+export const styleFromProperties = (properties: Feature['properties']): {
+  properties: Feature['properties'];
+  color?: string;
+  style?: LayerStyle;
+} => {
+  if (!Object.keys(properties || {}).some(key => STYLE_PROPERTIES.has(key))) return { properties };
+
+  const fillColor = normalizeColor(properties.fill);
+  const dashArray = properties['stroke-dasharray'];
+  const showLabel = properties['show-label'];
+  return {
+    properties: Object.fromEntries(Object.entries(properties).filter(([key]) => !STYLE_PROPERTIES.has(key))),
+    color: normalizeColor(properties.stroke),
+    style: {
+      strokeWidth: Math.max(0, toNumber(properties['stroke-width'], DEFAULT_LAYER_STYLE.strokeWidth)),
+      ...(fillColor ? { fillColor } : {}),
+      fillOpacity: Math.max(0, Math.min(1, toNumber(properties['fill-opacity'], DEFAULT_LAYER_STYLE.fillOpacity))),
+      dashed: typeof dashArray === 'string' ? dashArray.trim() !== '' && dashArray.trim() !== 'none' : Array.isArray(dashArray),
+      ...(showLabel !== undefined ? { showLabel: showLabel === true || showLabel === 'true' } : {}),
+      ...(typeof properties['icon-href'] === 'string' && properties['icon-href'] ? { iconHref: properties['icon-href'] } : {})
+    }
+  };
+};
@@ -0,0 +1,44 @@
+export type UnitSystem = 'metric' | 'imperial' | 'hectares' | 'acres';
+
+export const UNIT_SYSTEMS: { value: UnitSystem; label: string }[] = [
+  { value: 'metric', label: 'Metric (m, km²)' },
+  { value: 'imperial', label: 'Imperial (ft, mi²)' },
+  { value: 'hectares', label: 'Hectares' },
+  { value: 'acres', label: 'Acres' }
+];
+
+const FEET_PER_METRE = 3.28084;
+const METRES_PER_MILE = 1609.344;
+const SQ_METRES_PER_ACRE = 4046.8564224;
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: value < 10 ? 2 : value < 1000 ? 1 : 0 });
+
+/**
+ * Formats a distance in metres. Hectares use metric distances and acres imperial ones.
+ */
+export const formatDistance = (metres: number, units: UnitSystem): string => {
+  if (units === 'imperial' || units === 'acres') {
+    return metres < METRES_PER_MILE
+      ? `${formatNumber(metres * FEET_PER_METRE)} ft`
+      : `${formatNumber(metres / METRES_PER_MILE)} mi`;
+  }
+  return metres < 1000 ? `${formatNumber(metres)} m` : `${formatNumber(metres / 1000)} km`;
+};
+
+export const formatArea = (squareMetres: number, units: UnitSystem): string => {
+  switch (units) {
+    case 'metric':
+      return squareMetres < 1e6 ? `${formatNumber(squareMetres)} m²` : `${formatNumber(squareMetres / 1e6)} km²`;
+    case 'imperial': {
+      const squareMiles = squareMetres / METRES_PER_MILE ** 2;
+      return squareMiles < 1
+        ? `${formatNumber(squareMetres * FEET_PER_METRE ** 2)} ft²`
+        : `${formatNumber(squareMiles)} mi²`;
+    }
+    case 'hectares':
+      return `${formatNumber(squareMetres / 1e4)} ha`;
+    case 'acres':
+      return `${formatNumber(squareMetres / SQ_METRES_PER_ACRE)} ac`;
+  }
+};
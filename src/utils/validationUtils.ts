@@ -0,0 +1,311 @@
+import * as turf from '@turf/turf';
+import type { Feature as GeoJSONFeature, MultiPolygon, Polygon } from 'geojson';
+import type { Coordinate, Feature, Geometry } from '../types';
+import { bridgeMultiPolygon } from './bridgeUtils';
+import { findSegmentIntersections } from './simplifyUtils';
+
+export type IssueKind =
+  | 'invalidCoordinate'
+  | 'selfIntersection'
+  | 'unclosedRing'
+  | 'shortRing'
+  | 'holeOutsideShell'
+  | 'duplicateVertex'
+  | 'winding'
+  | 'skippedCoordinate';
+
+export interface ValidationIssue {
+  kind: IssueKind;
+  /** Errors block export; warnings are shown but harmless to most consumers. */
+  severity: 'error' | 'warning';
+  message: string;
+  /** Where to highlight the problem on the map, or null when it has no usable position. */
+  location: Coordinate | null;
+  /**
+   * How many problems of this kind the geometry has. Only the first
+   * MAX_LOCATIONS_PER_KIND are listed, so this can exceed the issues returned.
+   */
+  total: number;
+}
+
+export const ISSUE_LABELS: Record<IssueKind, string> = {
+  invalidCoordinate: 'Invalid coordinate',
+  selfIntersection: 'Self-intersection',
+  unclosedRing: 'Unclosed ring',
+  shortRing: 'Ring under 4 points',
+  holeOutsideShell: 'Hole outside its shell',
+  duplicateVertex: 'Duplicate vertex',
+  winding: 'Winding order',
+  skippedCoordinate: 'Unreadable coordinate'
+};
+
+// Enough to highlight on the map without flooding it; the count is reported regardless
+const MAX_LOCATIONS_PER_KIND = 100;
+
+const isValidCoordinate = (c: Coordinate) =>
+  Number.isFinite(c[0]) && Number.isFinite(c[1]) && Math.abs(c[1]) <= 90;
+
+const sameCoord = (a: Coordinate, b: Coordinate) => a[0] === b[0] && a[1] === b[1];
+
+const signedArea = (ring: Coordinate[]) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum / 2;
+};
+
+// Ray casting; points exactly on the boundary may land either way
+const pointInRing = (point: Coordinate, ring: Coordinate[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > point[1]) !== (yj > point[1]) && point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const polygonsOf = (geometry: Geometry): Coordinate[][][] => {
+  switch (geometry.type) {
+    case 'Polygon':
+      return [geometry.coordinates];
+    case 'MultiPolygon':
+      return geometry.coordinates;
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(polygonsOf);
+    default:
+      return [];
+  }
+};
+
+const linesOf = (geometry: Geometry): Coordinate[][] => {
+  switch (geometry.type) {
+    case 'LineString':
+      return [geometry.coordinates];
+    case 'MultiLineString':
+      return geometry.coordinates;
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(linesOf);
+    default:
+      return [];
+  }
+};
+
+const pointsOf = (geometry: Geometry): Coordinate[] => {
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates];
+    case 'MultiPoint':
+      return geometry.coordinates;
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(pointsOf);
+    default:
+      return [];
+  }
+};
+
+const checkGeometry = (geometry: Geometry): ValidationIssue[] => {
+  const issues: Omit<ValidationIssue, 'total'>[] = [];
+  const counts: Partial<Record<IssueKind, number>> = {};
+  const report = (kind: IssueKind, severity: ValidationIssue['severity'], message: string, location: Coordinate | null) => {
+    counts[kind] = (counts[kind] || 0) + 1;
+    if (counts[kind]! <= MAX_LOCATIONS_PER_KIND) issues.push({ kind, severity, message, location });
+  };
+
+  // Invalid coordinates are reported at the nearest valid vertex before them, if any
+  const checkCoordinates = (coords: Coordinate[]) => {
+    let lastValid: Coordinate | null = null;
+    coords.forEach(c => {
+      if (isValidCoordinate(c)) {
+        lastValid = c;
+      } else {
+        report('invalidCoordinate', 'error', `Coordinate [${c.join(', ')}] is not a valid longitude/latitude`, lastValid);
+      }
+    });
+  };
+
+  const checkDuplicates = (coords: Coordinate[], closed: boolean) => {
+    const end = closed ? coords.length - 1 : coords.length;
+    for (let i = 1; i < end; i++) {
+      if (sameCoord(coords[i], coords[i - 1])) {
+        report('duplicateVertex', 'warning', 'Vertex repeats the one before it', coords[i]);
+      }
+    }
+  };
+
+  pointsOf(geometry).forEach(point => checkCoordinates([point]));
+
+  linesOf(geometry).forEach(line => {
+    checkCoordinates(line);
+    checkDuplicates(line, false);
+    if (line.length < 2) report('shortRing', 'error', 'Line has fewer than 2 points', line[0] || null);
+  });
+
+  const polygons = polygonsOf(geometry);
+  polygons.forEach(rings => {
+    rings.forEach((ring, r) => {
+      const role = r === 0 ? 'Outer ring' : `Hole ${r}`;
+      checkCoordinates(ring);
+      if (ring.length === 0) return;
+
+      const closed = sameCoord(ring[0], ring[ring.length - 1]);
+      if (!closed) report('unclosedRing', 'error', `${role} does not end where it starts`, ring[ring.length - 1]);
+      checkDuplicates(ring, closed);
+      if (ring.length < 4) {
+        report('shortRing', 'error', `${role} has ${ring.length} points; a ring needs at least 4`, ring[0]);
+        return;
+      }
+
+      // RFC 7946: outer rings counter-clockwise, holes clockwise
+      const area = signedArea(ring);
+      if (area !== 0 && (area > 0) !== (r === 0)) {
+        report('winding', 'warning', `${role} is ${area > 0 ? 'counter-clockwise' : 'clockwise'}`, ring[0]);
+      }
+
+      if (r > 0 && rings[0].length >= 4 && !ring.some(c => pointInRing(c, rings[0]))) {
+        report('holeOutsideShell', 'error', `${role} lies outside the outer ring`, ring[0]);
+      }
+    });
+  });
+
+  const rings = polygons.flat().filter(ring => ring.length >= 4 && ring.every(isValidCoordinate));
+  // The search stops at the limit, so crossings beyond it are not counted
+  findSegmentIntersections(rings, MAX_LOCATIONS_PER_KIND).forEach(location => {
+    report('selfIntersection', 'error', 'Edges cross each other', location);
+  });
+
+  return issues.map(issue => ({ ...issue, total: counts[issue.kind]! }));
+};
+
+// Geometries are replaced rather than mutated, so results can be cached per object
+const cache = new WeakMap<Geometry, ValidationIssue[]>();
+
+/**
+ * Checks a geometry for invalid coordinates, self-intersections, unclosed or short
+ * rings, holes outside their shell, duplicate consecutive vertices and winding order.
+ */
+export const validateGeometry = (geometry: Geometry): ValidationIssue[] => {
+  let issues = cache.get(geometry);
+  if (!issues) {
+    issues = checkGeometry(geometry);
+    cache.set(geometry, issues);
+  }
+  return issues;
+};
+
+/**
+ * `validateGeometry` plus what was lost before the geometry existed: coordinates the
+ * importer couldn't read and left out.
+ */
+export const validateFeature = (feature: Feature): ValidationIssue[] => {
+  const skipped: unknown = feature.properties.skippedCoordinates;
+  const issues = validateGeometry(feature.geometry);
+  if (!Array.isArray(skipped) || skipped.length === 0) return issues;
+
+  return [
+    ...skipped.slice(0, MAX_LOCATIONS_PER_KIND).map((tuple): ValidationIssue => ({
+      kind: 'skippedCoordinate',
+      severity: 'warning',
+      message: `"${tuple}" is not a longitude/latitude and was left out on import`,
+      location: null,
+      total: skipped.length
+    })),
+    ...issues
+  ];
+};
+
+export const hasErrors = (issues: ValidationIssue[]): boolean =>
+  issues.some(issue => issue.severity === 'error');
+
+const cleanCoords = (coords: Coordinate[]) =>
+  coords.filter(isValidCoordinate).filter((c, i, all) => i === 0 || !sameCoord(c, all[i - 1]));
+
+const cleanRing = (ring: Coordinate[]): Coordinate[] | null => {
+  const clean = cleanCoords(ring);
+  if (clean.length > 1 && sameCoord(clean[0], clean[clean.length - 1])) clean.pop();
+  if (clean.length < 3) return null;
+  return [...clean, clean[0]];
+};
+
+// Splits a self-intersecting ring at its crossings and merges the pieces back into valid polygons
+const ringToValid = (ring: Coordinate[]): GeoJSONFeature<Polygon | MultiPolygon> | null => {
+  const pieces = turf.unkinkPolygon(turf.polygon([ring])).features;
+  if (pieces.length <= 1) return pieces[0] || null;
+  return turf.union(turf.featureCollection(pieces));
+};
+
+const polygonToValid = (rings: Coordinate[][]): Coordinate[][][] => {
+  if (findSegmentIntersections(rings, 1).length === 0) return [rings];
+
+  const shell = ringToValid(rings[0]);
+  if (!shell) return [];
+  const holes = rings.slice(1).map(ringToValid).filter((hole): hole is GeoJSONFeature<Polygon | MultiPolygon> => hole !== null);
+  const result = holes.length > 0 ? turf.difference(turf.featureCollection([shell, ...holes])) : shell;
+  if (!result) return [];
+  return result.geometry.type === 'Polygon'
+    ? [result.geometry.coordinates as Coordinate[][]]
+    : result.geometry.coordinates as Coordinate[][][];
+};
+
+const repairPolygons = (polygons: Coordinate[][][]): Coordinate[][][] => {
+  let repaired = polygons.flatMap(rings => {
+    const [shell, ...holes] = rings.map(cleanRing);
+    if (!shell) return [];
+    const kept = holes.filter((hole): hole is Coordinate[] => hole !== null && hole.some(c => pointInRing(c, shell)));
+    return polygonToValid([shell, ...kept]);
+  });
+
+  // Parts overlapping each other are merged
+  if (repaired.length > 1 && findSegmentIntersections(repaired.flat(), 1).length > 0) {
+    const merged = turf.union(turf.featureCollection(repaired.map(rings => turf.polygon(rings))));
+    if (merged) {
+      repaired = merged.geometry.type === 'Polygon'
+        ? [merged.geometry.coordinates as Coordinate[][]]
+        : merged.geometry.coordinates as Coordinate[][][];
+    }
+  }
+
+  return repaired.map(rings => rings.map((ring, r) => {
+    const area = signedArea(ring);
+    return area !== 0 && (area > 0) !== (r === 0) ? [...ring].reverse() : ring;
+  }));
+};
+
+/**
+ * Fixes what `validateGeometry` reports: drops invalid coordinates, duplicate vertices,
+ * short rings and holes outside their shell, closes rings, splits self-intersections
+ * into valid polygons and rewinds rings to the RFC 7946 order. A Polygon that has to be
+ * split is bridged back into a single Polygon.
+ */
+export const repairGeometry = (geometry: Geometry): Geometry => {
+  switch (geometry.type) {
+    case 'Point':
+      return geometry;
+    case 'MultiPoint':
+      return { type: 'MultiPoint', coordinates: geometry.coordinates.filter(isValidCoordinate) };
+    case 'LineString':
+      return { type: 'LineString', coordinates: cleanCoords(geometry.coordinates) };
+    case 'MultiLineString':
+      return {
+        type: 'MultiLineString',
+        coordinates: geometry.coordinates.map(cleanCoords).filter(line => line.length >= 2)
+      };
+    case 'Polygon': {
+      const polygons = repairPolygons([geometry.coordinates]);
+      if (polygons.length === 0) return geometry;
+      if (polygons.length === 1) return { type: 'Polygon', coordinates: polygons[0] };
+      // Pieces that touch at a point get a zero-length bridge, which repeats that vertex
+      const bridged = bridgeMultiPolygon({ type: 'MultiPolygon', coordinates: polygons });
+      return { type: 'Polygon', coordinates: bridged.coordinates.map(ring => cleanRing(ring) || ring) };
+    }
+    case 'MultiPolygon': {
+      const polygons = repairPolygons(geometry.coordinates);
+      return polygons.length > 0 ? { type: 'MultiPolygon', coordinates: polygons } : geometry;
+    }
+    case 'GeometryCollection':
+      return { type: 'GeometryCollection', geometries: geometry.geometries.map(repairGeometry) };
+  }
+};
@@ -0,0 +1,135 @@
+import type { Coordinate, Geometry } from '../types';
+
+// A ring keeps at least a triangle: three distinct vertices plus the closing point
+export const MIN_RING_VERTICES = 3;
+
+/** Position of a vertex: polygon part, ring within the part (0 = outer, 1+ = holes) and index. */
+export interface VertexRef {
+  part: number;
+  ring: number;
+  index: number;
+}
+
+/** A ring without its closing point, so every index is a distinct, editable vertex. */
+export interface EditableRing {
+  part: number;
+  ring: number;
+  coords: Coordinate[];
+}
+
+export const vertexKey = (ref: VertexRef): string => `${ref.part}:${ref.ring}:${ref.index}`;
+
+export const parseVertexKey = (key: string): VertexRef => {
+  const [part, ring, index] = key.split(':').map(Number);
+  return { part, ring, index };
+};
+
+const openRing = (ring: Coordinate[]): Coordinate[] => {
+  if (ring.length > 1) {
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first[0] === last[0] && first[1] === last[1]) return ring.slice(0, -1);
+  }
+  return ring;
+};
+
+const closeRing = (ring: Coordinate[]): Coordinate[] =>
+  ring.length > 0 ? [...ring, [ring[0][0], ring[0][1]]] : ring;
+
+const polygonParts = (geometry: Geometry | null | undefined): Coordinate[][][] | null => {
+  if (geometry?.type === 'Polygon') return [geometry.coordinates];
+  if (geometry?.type === 'MultiPolygon') return geometry.coordinates;
+  return null;
+};
+
+/**
+ * Lists every ring of every part of a Polygon or MultiPolygon, holes included.
+ * Other geometry types have no editable rings.
+ */
+export const getEditableRings = (geometry: Geometry | null | undefined): EditableRing[] =>
+  (polygonParts(geometry) || []).flatMap((rings, part) =>
+    rings.map((coords, ring) => ({ part, ring, coords: openRing(coords) }))
+  );
+
+/**
+ * Applies a change to selected rings and rebuilds the geometry with closed rings.
+ */
+const updateRings = (
+  geometry: Geometry,
+  update: (ring: EditableRing) => Coordinate[]
+): Geometry => {
+  const parts = polygonParts(geometry);
+  if (!parts) return geometry;
+
+  const updated = parts.map((rings, part) =>
+    rings.map((coords, ring) => closeRing(update({ part, ring, coords: openRing(coords) })))
+  );
+
+  return geometry.type === 'Polygon'
+    ? { type: 'Polygon', coordinates: updated[0] }
+    : { type: 'MultiPolygon', coordinates: updated };
+};
+
+const sameRing = (a: { part: number; ring: number }, b: { part: number; ring: number }) =>
+  a.part === b.part && a.ring === b.ring;
+
+// A position from the map is 2D; give it the altitude of the vertex it replaces or sits beside
+const withAltitude = (coord: Coordinate, ...neighbours: Coordinate[]): Coordinate => {
+  if (coord.length > 2) return coord;
+  const altitudes = neighbours.filter(c => c.length > 2).map(c => c[2]!);
+  return altitudes.length > 0
+    ? [coord[0], coord[1], altitudes.reduce((sum, alt) => sum + alt, 0) / altitudes.length]
+    : coord;
+};
+
+/**
+ * Moves one vertex to a new position, keeping its altitude.
+ */
+export const setVertex = (geometry: Geometry, ref: VertexRef, coord: Coordinate): Geometry =>
+  updateRings(geometry, ring => sameRing(ring, ref)
+    ? ring.coords.map((c, i) => i === ref.index ? withAltitude(coord, c) : c)
+    : ring.coords);
+
+/**
+ * Shifts a group of vertices by the same [dLon, dLat] offset.
+ */
+export const moveVertices = (geometry: Geometry, refs: VertexRef[], delta: Coordinate): Geometry => {
+  const keys = new Set(refs.map(vertexKey));
+  return updateRings(geometry, ring => ring.coords.map((c, index) =>
+    keys.has(vertexKey({ part: ring.part, ring: ring.ring, index }))
+      ? [c[0] + delta[0], c[1] + delta[1], ...c.slice(2)] as Coordinate
+      : c
+  ));
+};
+
+/**
+ * Inserts a vertex after `ref.index` in the ring `ref` points to, at the mean
+ * altitude of its neighbours.
+ */
+export const insertVertex = (geometry: Geometry, ref: VertexRef, coord: Coordinate): Geometry =>
+  updateRings(geometry, ring => {
+    if (!sameRing(ring, ref)) return ring.coords;
+    const before = ring.coords[ref.index];
+    const after = ring.coords[(ref.index + 1) % ring.coords.length];
+    return [...ring.coords.slice(0, ref.index + 1), withAltitude(coord, before, after), ...ring.coords.slice(ref.index + 1)];
+  });
+
+/**
+ * Removes vertices, never taking a ring below MIN_RING_VERTICES.
+ * Returns how many requested vertices were kept for that reason.
+ */
+export const deleteVertices = (geometry: Geometry, refs: VertexRef[]): { geometry: Geometry; kept: number } => {
+  const keys = new Set(refs.map(vertexKey));
+  let kept = 0;
+
+  const updated = updateRings(geometry, ring => {
+    const remaining = ring.coords.filter((_, index) => !keys.has(vertexKey({ part: ring.part, ring: ring.ring, index })));
+    if (remaining.length < MIN_RING_VERTICES) {
+      kept += ring.coords.length - remaining.length;
+      return ring.coords;
+    }
+    return remaining;
+  });
+
+  return { geometry: updated, kept };
+};
@@ -0,0 +1,192 @@
+import type { Coordinate, Geometry } from '../types';
+
+const WKT_TYPES = ['POINT', 'LINESTRING', 'POLYGON', 'MULTIPOINT', 'MULTILINESTRING', 'MULTIPOLYGON', 'GEOMETRYCOLLECTION'];
+
+/**
+ * Checks whether text starts with a WKT geometry keyword (optionally EWKT's SRID=n;).
+ */
+export const looksLikeWKT = (text: string): boolean =>
+  new RegExp(`^\\s*(SRID=\\d+;)?\\s*(${WKT_TYPES.join('|')})\\b`, 'i').test(text);
+
+/**
+ * Checks whether text is a hex-encoded WKB/EWKB string.
+ */
+export const looksLikeWKBHex = (text: string): boolean => {
+  const hex = text.trim().replace(/^\\x/i, '');
+  return hex.length >= 18 && hex.length % 2 === 0 && /^(00|01)[0-9a-f]+$/i.test(hex);
+};
+
+/**
+ * Parses one or more WKT/EWKT geometries (separated by whitespace, newlines or
+ * semicolons). Z and M values are dropped; EMPTY geometries are skipped.
+ */
+export const parseWKT = (text: string): Geometry[] => {
+  const tokens = text.match(/[A-Za-z]+|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|[(),;=]/g) || [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Invalid WKT: expected "${token}" near token ${pos}`);
+  };
+
+  // Reads "x y [z [m]]" and keeps only x and y
+  const readCoordinate = (): Coordinate => {
+    const values: number[] = [];
+    while (peek() !== undefined && !/^[(),;]$/.test(peek())) {
+      values.push(parseFloat(next()));
+    }
+    if (values.length < 2 || values.some(isNaN)) throw new Error('Invalid WKT coordinate');
+    return [values[0], values[1]];
+  };
+
+  const readList = <T>(readItem: () => T): T[] => {
+    expect('(');
+    const items = [readItem()];
+    while (peek() === ',') {
+      next();
+      items.push(readItem());
+    }
+    expect(')');
+    return items;
+  };
+
+  const readPoints = () => readList(readCoordinate);
+  const readRings = () => readList(readPoints);
+  // MULTIPOINT accepts both "(1 2, 3 4)" and "((1 2), (3 4))"
+  const readMultiPoint = () => readList(() => {
+    if (peek() !== '(') return readCoordinate();
+    next();
+    const coord = readCoordinate();
+    expect(')');
+    return coord;
+  });
+
+  const readGeometry = (): Geometry | null => {
+    const type = (next() || '').toUpperCase();
+    if (!WKT_TYPES.includes(type)) throw new Error(`Unsupported WKT geometry "${type}"`);
+
+    // Dimension qualifiers: "POINT Z", "POINT M", "POINT ZM"
+    if (peek() && /^(Z|M|ZM)$/i.test(peek())) next();
+    if (peek() && peek().toUpperCase() === 'EMPTY') {
+      next();
+      return null;
+    }
+
+    switch (type) {
+      case 'POINT': {
+        expect('(');
+        const coordinates = readCoordinate();
+        expect(')');
+        return { type: 'Point', coordinates };
+      }
+      case 'LINESTRING':
+        return { type: 'LineString', coordinates: readPoints() };
+      case 'POLYGON':
+        return { type: 'Polygon', coordinates: readRings() };
+      case 'MULTIPOINT':
+        return { type: 'MultiPoint', coordinates: readMultiPoint() };
+      case 'MULTILINESTRING':
+        return { type: 'MultiLineString', coordinates: readRings() };
+      case 'MULTIPOLYGON':
+        return { type: 'MultiPolygon', coordinates: readList(readRings) };
+      default: {
+        const geometries = readList(readGeometry).filter((g): g is Geometry => g !== null);
+        return { type: 'GeometryCollection', geometries };
+      }
+    }
+  };
+
+  const geometries: Geometry[] = [];
+  while (pos < tokens.length) {
+    if (peek() === ';') {
+      next();
+      continue;
+    }
+    // EWKT prefix: SRID=4326;
+    if (peek().toUpperCase() === 'SRID') {
+      next();
+      expect('=');
+      next();
+      continue;
+    }
+    const geometry = readGeometry();
+    if (geometry) geometries.push(geometry);
+  }
+  return geometries;
+};
+
+/**
+ * Parses a WKB/EWKB geometry from bytes or a hex string. Z and M values are dropped.
+ */
+export const parseWKB = (input: ArrayBuffer | Uint8Array | string): Geometry => {
+  let bytes: Uint8Array;
+  if (typeof input === 'string') {
+    const hex = input.trim().replace(/^\\x/i, '');
+    bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+  } else {
+    bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const readGeometry = (): Geometry => {
+    const littleEndian = view.getUint8(offset) === 1;
+    offset += 1;
+    const uint32 = () => {
+      const value = view.getUint32(offset, littleEndian);
+      offset += 4;
+      return value;
+    };
+    const float64 = () => {
+      const value = view.getFloat64(offset, littleEndian);
+      offset += 8;
+      return value;
+    };
+
+    const rawType = uint32();
+    // EWKB flags in the high bits, ISO dimensions as +1000/+2000/+3000
+    const hasZFlag = (rawType & 0x80000000) !== 0;
+    const hasMFlag = (rawType & 0x40000000) !== 0;
+    if (rawType & 0x20000000) uint32(); // SRID
+    const isoType = rawType & 0x0fffffff;
+    const type = isoType % 1000;
+    const isoDims = Math.floor(isoType / 1000);
+    const dims = 2 + (hasZFlag || isoDims === 1 || isoDims === 3 ? 1 : 0) + (hasMFlag || isoDims === 2 || isoDims === 3 ? 1 : 0);
+
+    const point = (): Coordinate => {
+      const x = float64();
+      const y = float64();
+      for (let d = 2; d < dims; d++) float64();
+      return [x, y];
+    };
+    const points = () => Array.from({ length: uint32() }, point);
+    const rings = () => Array.from({ length: uint32() }, points);
+    const members = () => Array.from({ length: uint32() }, readGeometry);
+
+    switch (type) {
+      case 1:
+        return { type: 'Point', coordinates: point() };
+      case 2:
+        return { type: 'LineString', coordinates: points() };
+      case 3:
+        return { type: 'Polygon', coordinates: rings() };
+      case 4:
+        return { type: 'MultiPoint', coordinates: members().map(g => g.type === 'Point' ? g.coordinates : [0, 0] as Coordinate) };
+      case 5:
+        return { type: 'MultiLineString', coordinates: members().map(g => g.type === 'LineString' ? g.coordinates : []) };
+      case 6:
+        return { type: 'MultiPolygon', coordinates: members().map(g => g.type === 'Polygon' ? g.coordinates : []) };
+      case 7:
+        return { type: 'GeometryCollection', geometries: members() };
+      default:
+        throw new Error(`Unsupported WKB geometry type ${rawType}`);
+    }
+  };
+
+  return readGeometry();
+};
@@ -0,0 +1,104 @@
+/**
+ * Minimal XML element tree, enough for KML. Unlike DOMParser it works in Web Workers
+ * and outside the browser.
+ */
+export interface XmlElement {
+  tagName: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Text of this element and all its descendants, like DOM textContent. */
+  readonly textContent: string;
+}
+
+interface MutableElement extends XmlElement {
+  nodes: (XmlElement | string)[];
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string): string =>
+  text.indexOf('&') === -1
+    ? text
+    : text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+      if (entity[0] !== '#') return ENTITIES[entity] ?? match;
+      const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    });
+
+const createElement = (tagName: string, attributes: Record<string, string>): MutableElement => ({
+  tagName,
+  attributes,
+  children: [],
+  nodes: [],
+  get textContent(): string {
+    return this.nodes.map(node => typeof node === 'string' ? node : node.textContent).join('');
+  }
+});
+
+const TAG = /<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parses an XML document and returns its root element.
+ * Throws on malformed markup (unclosed or mismatched tags, unterminated sections).
+ */
+export const parseXML = (text: string): XmlElement => {
+  const document = createElement('#document', {});
+  const stack: MutableElement[] = [document];
+  let pos = 0;
+
+  const expect = (terminator: string, from: number, what: string) => {
+    const end = text.indexOf(terminator, from);
+    if (end === -1) throw new Error(`Unterminated ${what}`);
+    return end;
+  };
+
+  while (pos < text.length) {
+    const lt = text.indexOf('<', pos);
+    const top = stack[stack.length - 1];
+    const chunk = text.slice(pos, lt === -1 ? text.length : lt);
+    if (chunk.trim() && stack.length > 1) top.nodes.push(decodeEntities(chunk));
+    if (lt === -1) break;
+
+    if (text.startsWith('<!--', lt)) {
+      pos = expect('-->', lt + 4, 'comment') + 3;
+    } else if (text.startsWith('<![CDATA[', lt)) {
+      const end = expect(']]>', lt + 9, 'CDATA section');
+      top.nodes.push(text.slice(lt + 9, end));
+      pos = end + 3;
+    } else if (text.startsWith('<?', lt)) {
+      pos = expect('?>', lt + 2, 'processing instruction') + 2;
+    } else if (text.startsWith('<!', lt)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = text.indexOf('[', lt);
+      const close = text.indexOf('>', lt);
+      pos = (bracket !== -1 && bracket < close ? expect(']>', bracket, 'DOCTYPE') + 2 : expect('>', lt, 'DOCTYPE') + 1);
+    } else if (text[lt + 1] === '/') {
+      const end = expect('>', lt, 'closing tag');
+      const name = text.slice(lt + 2, end).trim();
+      if (stack.length === 1 || top.tagName !== name) {
+        throw new Error(`Unexpected closing tag </${name}>${stack.length > 1 ? ` (expected </${top.tagName}>)` : ''}`);
+      }
+      stack.pop();
+      pos = end + 1;
+    } else {
+      TAG.lastIndex = lt;
+      const match = TAG.exec(text);
+      if (!match) throw new Error(`Malformed tag at offset ${lt}`);
+
+      const attributes: Record<string, string> = {};
+      for (const [, name, double, single] of match[2].matchAll(ATTRIBUTE)) {
+        attributes[name] = decodeEntities(double ?? single);
+      }
+      const element = createElement(match[1], attributes);
+      top.children.push(element);
+      top.nodes.push(element);
+      if (!match[3]) stack.push(element);
+      pos = TAG.lastIndex;
+    }
+  }
+
+  if (stack.length > 1) throw new Error(`Unclosed tag <${stack[stack.length - 1].tagName}>`);
+  if (document.children.length !== 1) throw new Error('Document must have exactly one root element');
+  return document.children[0];
+};
@@ -0,0 +1,14 @@
+import { runGeometryJob, type WorkerRequest, type WorkerResponse } from '../utils/geometryJobs';
+
+// One job at a time: the queue only posts the next job after this one answers
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, job } = event.data;
+  const post = (response: WorkerResponse) => self.postMessage(response);
+
+  try {
+    const result = await runGeometryJob(job, progress => post({ id, type: 'progress', progress }));
+    post({ id, type: 'done', result });
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
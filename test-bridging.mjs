@@ -0,0 +1,112 @@
+// Regression checks for MultiPolygon bridging. Run with `npm run test:bridging`.
+// Loads the TypeScript sources through Vite, so no build step is needed.
+import { readFileSync, readdirSync } from 'node:fs';
+import { createServer } from 'vite';
+
+const server = await createServer({ server: { middlewareMode: true }, appType: 'custom', logLevel: 'error' });
+const turf = await import('@turf/turf');
+const { bridgeMultiPolygon } = await server.ssrLoadModule('/src/utils/bridgeUtils.ts');
+const { processGeometry } = await server.ssrLoadModule('/src/utils/geometryUtils.ts');
+const { findSegmentIntersections } = await server.ssrLoadModule('/src/utils/simplifyUtils.ts');
+
+let failures = 0;
+const check = (name, condition, detail = '') => {
+  if (!condition) {
+    failures++;
+    console.log(`  FAIL ${name}${detail ? `: ${detail}` : ''}`);
+  }
+};
+
+const partsOf = (geometry) => geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+const key = (c) => `${c[0]},${c[1]}`;
+
+// Valid bridged output: one Polygon, closed rings, no crossings, every hole and vertex kept, area unchanged
+const assertBridged = (name, input, output, { exactArea = true } = {}) => {
+  console.log(name);
+  check('is a Polygon', output.type === 'Polygon', output.type);
+  output.coordinates.forEach((ring, i) => {
+    check(`ring ${i} has 4+ points`, ring.length >= 4, String(ring.length));
+    check(`ring ${i} is closed`, key(ring[0]) === key(ring[ring.length - 1]));
+  });
+
+  const crossings = findSegmentIntersections(output.coordinates);
+  check('no self-intersections', crossings.length === 0, JSON.stringify(crossings.slice(0, 3)));
+
+  const parts = partsOf(input);
+  const holes = parts.reduce((sum, part) => sum + part.length - 1, 0);
+  check('keeps every hole', output.coordinates.length - 1 === holes, `${output.coordinates.length - 1} of ${holes}`);
+
+  const kept = new Set(output.coordinates.flat().map(key));
+  const missing = parts.flat(2).filter(c => !kept.has(key(c)));
+  check('keeps every vertex', missing.length === 0, `${missing.length} missing`);
+
+  if (exactArea) {
+    const before = turf.area(input);
+    const after = turf.area(output);
+    check('area unchanged', Math.abs(after - before) <= before * 1e-9, `${before} -> ${after}`);
+  }
+};
+
+for (const file of readdirSync('fixtures/bridging').filter(f => f.endsWith('.json')).sort()) {
+  const fixture = JSON.parse(readFileSync(`fixtures/bridging/${file}`, 'utf8'));
+  assertBridged(`${file} (${fixture.properties.name})`, fixture.geometry, bridgeMultiPolygon(fixture.geometry));
+}
+
+// Rings far beyond the old 1000-vertex sampling threshold: the bridge must be the true nearest pair
+const circle = (center, radius, points, phase) => {
+  const ring = Array.from({ length: points }, (_, i) => {
+    const angle = (i / points) * Math.PI * 2 + phase;
+    return [center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)];
+  });
+  return [[...ring, ring[0]]];
+};
+const circles = { type: 'MultiPolygon', coordinates: [circle([0, 0], 1, 5000, 0), circle([2.5, 0.3], 1, 4999, 0.1234)] };
+const start = Date.now();
+const bridged = bridgeMultiPolygon(circles);
+const elapsed = Date.now() - start;
+assertBridged(`two 5000-vertex circles (${elapsed} ms)`, circles, bridged);
+check('bridges in under 2 s', elapsed < 2000, `${elapsed} ms`);
+
+const [a, b] = circles.coordinates.map(([ring]) => ring.slice(0, -1));
+const inA = new Set(a.map(key));
+let nearest = Infinity;
+a.forEach(p => b.forEach(q => {
+  nearest = Math.min(nearest, (p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2);
+}));
+const shell = bridged.coordinates[0];
+const bridge = shell.slice(1).map((q, i) => [shell[i], q]).find(([p, q]) => inA.has(key(p)) !== inA.has(key(q)));
+const bridgeLength = bridge ? (bridge[0][0] - bridge[1][0]) ** 2 + (bridge[0][1] - bridge[1][1]) ** 2 : Infinity;
+check('bridge is the nearest vertex pair', Math.abs(bridgeLength - nearest) < 1e-12, `${bridgeLength} vs ${nearest}`);
+
+// Nothing to join is an error rather than a Polygon with an empty ring
+const emptyInputs = {
+  'empty MultiPolygon': { type: 'MultiPolygon', coordinates: [] },
+  'Point': { type: 'Point', coordinates: [0, 0] },
+  'degenerate parts': { type: 'MultiPolygon', coordinates: [[[[0, 0], [0, 0], [0, 0], [0, 0]]], [[[1, 1], [1, 1], [1, 1], [1, 1]]]] }
+};
+Object.entries(emptyInputs).forEach(([name, input]) => {
+  console.log(`empty input: ${name}`);
+  let threw = false;
+  try {
+    bridgeMultiPolygon(input);
+  } catch {
+    threw = true;
+  }
+  check('throws', threw);
+});
+
+// Real boundaries from Nominatim
+const london = JSON.parse(readFileSync('debug_london.json', 'utf8'));
+london.forEach(result => {
+  const processed = processGeometry(result.geojson, 'accurate');
+  console.log(`debug_london.json: ${result.display_name}`);
+  check('is a Polygon', processed.type === 'Polygon', processed.type);
+  check('no self-intersections', findSegmentIntersections(processed.coordinates, 1).length === 0);
+});
+const [greater, , ontario] = london.map(result => result.geojson);
+const apart = { type: 'MultiPolygon', coordinates: [greater.coordinates, ontario.coordinates] };
+assertBridged('debug_london.json: Greater London + London, Ontario', apart, bridgeMultiPolygon(apart));
+
+await server.close();
+console.log(failures === 0 ? '\nAll bridging checks passed.' : `\n${failures} check(s) failed.`);
+process.exit(failures === 0 ? 0 : 1);
@@ -0,0 +1,59 @@
+// Performance check for MultiPolygon bridging, plus a KML round trip, run in Node
+// against the library entry point. Run with `npm run test:geometry`.
+import { createServer } from 'vite';
+
+const server = await createServer({ server: { middlewareMode: true }, appType: 'custom', logLevel: 'error' });
+const { bridgeMultiPolygon, parseKML, toKMLDocument, featuresToLayers } = await server.ssrLoadModule('/src/lib/index.ts');
+
+let failed = false;
+
+// Create a heavy MultiPolygon (two large circles)
+const createCircle = (center, radius, points) => {
+    const coords = [];
+    for (let i = 0; i < points; i++) {
+        const angle = (i / points) * Math.PI * 2;
+        coords.push([
+            center[0] + radius * Math.cos(angle),
+            center[1] + radius * Math.sin(angle)
+        ]);
+    }
+    coords.push(coords[0]); // Close the loop
+    return [coords];
+};
+
+const poly1 = createCircle([0, 0], 1, 5000);
+const poly2 = createCircle([5, 5], 1, 5000);
+const multiPoly = {
+    type: 'MultiPolygon',
+    coordinates: [poly1, poly2]
+};
+
+console.log('Testing with 10,000 points total...');
+const start = Date.now();
+const result = bridgeMultiPolygon(multiPoly);
+const end = Date.now();
+
+console.log(`Finished in ${end - start}ms`);
+console.log(`Result type: ${result.type}`);
+console.log(`Result coordinates length: ${result.coordinates[0].length}`);
+
+if (result.type === 'Polygon' && (end - start) < 1000) {
+    console.log('SUCCESS: Performance and Correctness verified.');
+} else {
+    console.log('FAILURE: Performance or Correctness issue.');
+    failed = true;
+}
+
+// KML written and parsed back without a DOM
+const feature = { type: 'Feature', properties: { name: 'Bridged', population: 42 }, geometry: result };
+const [parsed] = parseKML(toKMLDocument(featuresToLayers([feature]), { name: 'Round trip' }));
+if (parsed?.properties.name === 'Bridged' && parsed.properties.population === 42 &&
+    parsed.geometry.coordinates[0].length === result.coordinates[0].length) {
+    console.log('SUCCESS: KML round trip in Node.');
+} else {
+    console.log('FAILURE: KML round trip lost data.');
+    failed = true;
+}
+
+await server.close();
+if (failed) process.exitCode = 1;
@@ -0,0 +1,24 @@
+import { defineConfig } from 'vite'
+
+// Builds the DOM-free library (src/lib) and the location2kml CLI for Node into
+// dist-lib. Dependencies stay external and are resolved from node_modules.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: true,
+    target: 'node20',
+    outDir: 'dist-lib',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        index: 'src/lib/index.ts',
+        location2kml: 'cli/location2kml.ts',
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+        chunkFileNames: '[name].js',
+      },
+    },
+  },
+})